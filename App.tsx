@@ -2,57 +2,200 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useState } from 'react';
+import React, { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
 import LanguageSelector from './components/LanguageSelector';
 import Stepper from './components/Stepper';
 import Step1Upload from './components/Step1Upload';
 import Step2Rendering from './components/Step2Rendering';
-import Step3SceneGeneration, { GeneratedScene, ScenePoint } from './components/Step3SceneGeneration';
+import Step3SceneGeneration, { GeneratedScene } from './components/Step3SceneGeneration';
 import Step4SceneEditing from './components/Step4SceneEditing';
 import Step5Presentation from './components/Step5Presentation';
+import ModelProviderToggle from './components/ModelProviderToggle';
+import ProjectDashboard from './components/ProjectDashboard';
+import LevelSwitcher from './components/LevelSwitcher';
 import { Language, getTranslation } from './lib/i18n';
+import { PROJECT_FILE_EXTENSION, ProjectState, WizardStep, exportProjectBundle, importProjectBundle } from './lib/projectFile';
+import { createProjectId, loadProject, saveProject as storeProject } from './lib/projectStore';
+import { Level, createLevel, getAllScenes, getLevelPlans } from './lib/levels';
+import type { RenderingVersion } from './lib/renderingVersions';
+import type { StylePreset } from './lib/styleLibrary';
+import type { PresentationText } from './services/geminiService';
 
-type AppState = 'language' | 'step1' | 'step2' | 'step3' | 'step4' | 'step5';
+type AppState = 'language' | 'projects' | WizardStep;
+
+// Wait for a pause in edits before writing the session to IndexedDB.
+const AUTOSAVE_DELAY_MS = 1500;
 
 function App() {
     const [currentStep, setCurrentStep] = useState<AppState>('language');
     const [language, setLanguage] = useState<Language>('zh');
-    const [uploadedImage, setUploadedImage] = useState<string>('');
-    const [renderedImage, setRenderedImage] = useState<string>('');
+    const [levels, setLevels] = useState<Level[]>(() => [createLevel(0)]);
+    const [activeLevelId, setActiveLevelId] = useState<string>('');
     const [style, setStyle] = useState<string>('');
-    const [generatedScenes, setGeneratedScenes] = useState<GeneratedScene[]>([]);
-    const [scenePoints, setScenePoints] = useState<ScenePoint[]>([]);
+    const [stylePreset, setStylePreset] = useState<StylePreset | null>(null);
+    const [styleDescription, setStyleDescription] = useState('');
+    const [moodBoard, setMoodBoard] = useState<string[]>([]);
+    const [presentationText, setPresentationText] = useState<PresentationText | null>(null);
+    const [isSavingProject, setIsSavingProject] = useState(false);
+    const [projectId, setProjectId] = useState<string>(createProjectId);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+    const hasWarnedAboutStorage = useRef(false);
+
+    const activeLevel = levels.find(level => level.id === activeLevelId) ?? levels[0];
+    const hasUpload = levels.some(level => level.uploadedImage);
+    // Memoised so the presentation step does not refetch on every render.
+    const allScenes = useMemo(() => getAllScenes(levels), [levels]);
+    const levelPlans = useMemo(() => getLevelPlans(levels), [levels]);
+
+    const updateLevel = (id: string, update: (level: Level) => Partial<Level>) => {
+        setLevels(prev => prev.map(level => level.id === id ? { ...level, ...update(level) } : level));
+    };
+
+    // Setters are bound to a level id so generation that finishes after the user
+    // switched floors still lands on the floor it was started from.
+    const levelSetter = <K extends keyof Level>(id: string, key: K): React.Dispatch<React.SetStateAction<Level[K]>> => (action) => {
+        updateLevel(id, level => ({
+            [key]: typeof action === 'function' ? (action as (prev: Level[K]) => Level[K])(level[key]) : action,
+        } as Partial<Level>));
+    };
+
+    const getProjectState = (step: WizardStep): ProjectState => ({
+        step,
+        levels,
+        activeLevelId: activeLevel.id,
+        style,
+        stylePreset,
+        styleDescription,
+        moodBoard,
+        presentationText,
+    });
+
+    const applyProjectState = (project: ProjectState) => {
+        setLevels(project.levels.length > 0 ? project.levels : [createLevel(0)]);
+        setActiveLevelId(project.activeLevelId);
+        setStyle(project.style);
+        setStylePreset(project.stylePreset);
+        setStyleDescription(project.styleDescription);
+        setMoodBoard(project.moodBoard);
+        setPresentationText(project.presentationText);
+        setCurrentStep(project.step);
+    };
+
+    const persistProject = async (step: WizardStep) => {
+        try {
+            const defaultName = `${getTranslation('untitledProject', language)} ${new Date().toLocaleDateString()}`;
+            const summary = await storeProject(projectId, getProjectState(step), language, defaultName);
+            if (!summary && !hasWarnedAboutStorage.current) {
+                hasWarnedAboutStorage.current = true;
+                alert(getTranslation('storageAlmostFull', language));
+            }
+        } catch (error) {
+            console.error('Autosave failed:', error);
+        }
+    };
+
+    // Autosave the project so a closed tab or crash doesn't lose minutes of generation work.
+    useEffect(() => {
+        if (currentStep === 'language' || currentStep === 'projects' || !hasUpload) return;
+
+        const timer = setTimeout(() => persistProject(currentStep), AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [projectId, currentStep, language, levels, activeLevelId, style, stylePreset, styleDescription, moodBoard, presentationText]);
 
     const handleLanguageSelect = (selectedLanguage: Language) => {
         setLanguage(selectedLanguage);
-        setCurrentStep('step1');
+        setCurrentStep('projects');
     };
 
-    const handleImageUpload = (imageUrl: string) => {
-        setUploadedImage(imageUrl);
-        setRenderedImage('');
-        setStyle('');
-        setGeneratedScenes([]);
-        setScenePoints([]);
+    // The style is shared by all floors, so replacing one floor's plan only resets that floor.
+    const handleImageUpload = (id: string, imageUrl: string, sourceImageUrl: string) => {
+        updateLevel(id, () => ({
+            sourceImage: sourceImageUrl,
+            uploadedImage: imageUrl,
+            renderedImage: '',
+            planScale: null,
+            northHeading: 0,
+            renderingVersions: [],
+            finalVersionId: null,
+            generatedScenes: [],
+            scenePoints: [],
+            designBrief: null,
+        }));
+        setPresentationText(null);
     };
 
-    const handleRenderingComplete = (renderedImageUrl: string) => {
-        setRenderedImage(renderedImageUrl);
-        setStyle('');
-        setGeneratedScenes([]);
-        setScenePoints([]);
+    const handleFinalVersionChange = (id: string, version: RenderingVersion) => {
+        updateLevel(id, () => ({
+            renderedImage: version.url,
+            finalVersionId: version.id,
+            generatedScenes: [],
+            scenePoints: [],
+            designBrief: null,
+        }));
+        setPresentationText(null);
+    };
+
+    // Any change to the scenes or style makes previously generated presentation text stale.
+    const handleScenesChange = (id: string): React.Dispatch<React.SetStateAction<GeneratedScene[]>> => (action) => {
+        levelSetter(id, 'generatedScenes')(action);
+        setPresentationText(null);
+    };
+
+    const addLevel = () => {
+        const level = createLevel(levels.length);
+        setLevels(prev => [...prev, level]);
+        setActiveLevelId(level.id);
+    };
+
+    const renameLevel = (id: string, name: string) => {
+        updateLevel(id, () => ({ name }));
+        setPresentationText(null);
+    };
+
+    const removeLevel = (id: string) => {
+        if (levels.length < 2) return;
+        const index = levels.findIndex(level => level.id === id);
+        const remaining = levels.filter(level => level.id !== id);
+        setLevels(remaining);
+        setActiveLevelId(remaining[Math.min(index, remaining.length - 1)].id);
+        setPresentationText(null);
+    };
+
+    const moveLevel = (id: string, offset: -1 | 1) => {
+        setLevels(prev => {
+            const index = prev.findIndex(level => level.id === id);
+            const target = index + offset;
+            if (index < 0 || target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+        setPresentationText(null);
+    };
+
+    const handleStyleChange = (newStyle: string) => {
+        setStyle(newStyle);
+        // Typing a different style leaves the preset it came from.
+        if (stylePreset && newStyle !== stylePreset.name) setStylePreset(null);
+        setPresentationText(null);
+    };
+
+    const handleStylePresetChange = (preset: StylePreset | null) => {
+        setStylePreset(preset);
+        if (preset) setStyle(preset.name);
+        setPresentationText(null);
     };
 
     const goToNextStep = () => {
         switch (currentStep) {
             case 'step1':
-                if (uploadedImage) setCurrentStep('step2');
+                if (canGoNext()) setCurrentStep('step2');
                 break;
             case 'step2':
-                if (renderedImage) setCurrentStep('step3');
+                if (canGoNext()) setCurrentStep('step3');
                 break;
             case 'step3':
-                if (generatedScenes.length > 0) setCurrentStep('step4');
+                if (allScenes.length > 0) setCurrentStep('step4');
                 break;
             case 'step4':
                 setCurrentStep('step5');
@@ -81,13 +224,76 @@ function App() {
         }
     };
 
+    const openStoredProject = async (id: string, projectLanguage: Language = language) => {
+        try {
+            const project = await loadProject(id);
+            setLanguage(projectLanguage);
+            setProjectId(id);
+            applyProjectState(project);
+        } catch (error) {
+            console.error('Failed to open stored project:', error);
+            alert(getTranslation('resumeSessionFailed', projectLanguage));
+        }
+    };
+
+    const showProjects = async () => {
+        // Flush pending edits so the dashboard shows the latest thumbnails and step.
+        if (currentStep !== 'language' && currentStep !== 'projects' && hasUpload) {
+            await persistProject(currentStep);
+        }
+        setCurrentStep('projects');
+    };
+
     const resetApp = () => {
+        // Keep the previous project in storage; it can still be opened from the dashboard.
+        setProjectId(createProjectId());
         setCurrentStep('step1');
-        setUploadedImage('');
-        setRenderedImage('');
+        setLevels([createLevel(0)]);
+        setActiveLevelId('');
         setStyle('');
-        setGeneratedScenes([]);
-        setScenePoints([]);
+        setStylePreset(null);
+        setStyleDescription('');
+        setMoodBoard([]);
+        setPresentationText(null);
+    };
+
+    const saveProject = async () => {
+        if (currentStep === 'language' || currentStep === 'projects') return;
+
+        setIsSavingProject(true);
+        try {
+            const bundle = await exportProjectBundle(getProjectState(currentStep));
+            const url = URL.createObjectURL(bundle);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `floorplan_project_${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            // Some browsers only start the download after click() returns, so the URL must outlive it.
+            setTimeout(() => URL.revokeObjectURL(url), 0);
+        } catch (error) {
+            console.error('Failed to save project:', error);
+            alert(getTranslation('projectSaveFailed', language));
+        } finally {
+            setIsSavingProject(false);
+        }
+    };
+
+    const openProject = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Reset the input so the same file can be opened again later.
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const project = await importProjectBundle(file);
+            setProjectId(createProjectId());
+            applyProjectState(project);
+        } catch (error) {
+            console.error('Failed to open project:', error);
+            alert(`${getTranslation('projectOpenFailed', language)} ${error instanceof Error ? error.message : ''}`);
+        }
     };
 
     const changeLanguage = () => {
@@ -107,21 +313,21 @@ function App() {
 
     const canGoNext = (): boolean => {
         switch (currentStep) {
-            case 'step1': return !!uploadedImage;
-            case 'step2': return !!renderedImage;
-            case 'step3': return generatedScenes.length > 0 && !generatedScenes.some(s => s.isLoading);
-            case 'step4': return generatedScenes.length > 0 && !generatedScenes.some(s => s.isLoading);
+            case 'step1': return levels.every(level => level.uploadedImage);
+            case 'step2': return levels.every(level => level.renderedImage);
+            case 'step3': return allScenes.length > 0 && !allScenes.some(s => s.isLoading);
+            case 'step4': return allScenes.length > 0 && !allScenes.some(s => s.isLoading);
             default: return false;
         }
     };
 
     const canGoPrev = (): boolean => {
-        return currentStep !== 'step1' && currentStep !== 'language';
+        return currentStep !== 'step1' && currentStep !== 'language' && currentStep !== 'projects';
     };
     
     // Show language selector if on 'language' step
     if (currentStep === 'language') {
-        return <LanguageSelector onLanguageSelect={handleLanguageSelect} />;
+        return <LanguageSelector onLanguageSelect={handleLanguageSelect} onResumeSession={openStoredProject} />;
     }
 
     return (
@@ -131,7 +337,9 @@ function App() {
                     {/* Header */}
                     <header className="text-center mb-8">
                         <div className="flex justify-between items-start mb-4">
-                            <div className="flex-1"></div>
+                            <div className="flex-1 flex justify-start">
+                                <ModelProviderToggle language={language} />
+                            </div>
                             <div className="flex-1">
                                 <h1 className="text-3xl md:text-4xl font-bold text-slate-900">
                                     {getTranslation('appTitle', language)}
@@ -140,7 +348,35 @@ function App() {
                                     {getTranslation('appSubtitle', language)}
                                 </p>
                             </div>
-                            <div className="flex-1 flex justify-end">
+                            <div className="flex-1 flex justify-end gap-2">
+                                {currentStep !== 'projects' && (
+                                    <button
+                                        onClick={showProjects}
+                                        className="px-3 py-1 text-sm bg-gray-100 text-gray-600 rounded-md hover:bg-gray-200 transition-colors"
+                                    >
+                                        {getTranslation('projectsTitle', language)}
+                                    </button>
+                                )}
+                                <input
+                                    ref={projectInputRef}
+                                    type="file"
+                                    accept={PROJECT_FILE_EXTENSION}
+                                    className="hidden"
+                                    onChange={openProject}
+                                />
+                                <button
+                                    onClick={() => projectInputRef.current?.click()}
+                                    className="px-3 py-1 text-sm bg-gray-100 text-gray-600 rounded-md hover:bg-gray-200 transition-colors"
+                                >
+                                    {getTranslation('openProject', language)}
+                                </button>
+                                <button
+                                    onClick={saveProject}
+                                    disabled={!hasUpload || isSavingProject || currentStep === 'projects'}
+                                    className="px-3 py-1 text-sm bg-gray-100 text-gray-600 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isSavingProject ? getTranslation('savingProject', language) : getTranslation('saveProject', language)}
+                                </button>
                                 <button
                                     onClick={changeLanguage}
                                     className="px-3 py-1 text-sm bg-gray-100 text-gray-600 rounded-md hover:bg-gray-200 transition-colors"
@@ -152,56 +388,117 @@ function App() {
                         </div>
                     </header>
 
+                    {currentStep === 'projects' ? (
+                        <ProjectDashboard
+                            language={language}
+                            onCreateProject={resetApp}
+                            onOpenProject={id => openStoredProject(id)}
+                        />
+                    ) : (
+                    <>
                     {/* Stepper */}
                     <Stepper currentStep={getStepNumber()} maxStep={5} language={language} />
 
                     {/* Content Area */}
                     <main className="mb-8 min-h-[50vh]">
+                        {currentStep === 'step1' && (
+                            <LevelSwitcher
+                                levels={levels}
+                                activeLevelId={activeLevel.id}
+                                onSelect={setActiveLevelId}
+                                language={language}
+                                onAdd={addLevel}
+                                onRename={renameLevel}
+                                onRemove={removeLevel}
+                                onMove={moveLevel}
+                                isLevelComplete={level => !!level.uploadedImage}
+                            />
+                        )}
+
+                        {(currentStep === 'step2' || currentStep === 'step3' || currentStep === 'step4') && levels.length > 1 && (
+                            <LevelSwitcher
+                                levels={levels}
+                                activeLevelId={activeLevel.id}
+                                onSelect={setActiveLevelId}
+                                language={language}
+                                isLevelComplete={currentStep === 'step2' ? level => !!level.renderedImage : undefined}
+                            />
+                        )}
+
                         {currentStep === 'step1' && (
                             <Step1Upload 
-                                onImageUpload={handleImageUpload}
-                                uploadedImage={uploadedImage}
+                                key={activeLevel.id}
+                                onImageUpload={(imageUrl, sourceImageUrl) => handleImageUpload(activeLevel.id, imageUrl, sourceImageUrl)}
+                                uploadedImage={activeLevel.uploadedImage}
+                                sourceImage={activeLevel.sourceImage}
+                                planScale={activeLevel.planScale}
+                                onPlanScaleChange={levelSetter(activeLevel.id, 'planScale')}
                                 language={language}
                             />
                         )}
                         
                         {currentStep === 'step2' && (
                             <Step2Rendering 
-                                originalImage={uploadedImage}
-                                onRenderingComplete={handleRenderingComplete}
+                                key={activeLevel.id}
+                                originalImage={activeLevel.uploadedImage}
+                                versions={activeLevel.renderingVersions}
+                                onVersionsChange={levelSetter(activeLevel.id, 'renderingVersions')}
+                                finalVersionId={activeLevel.finalVersionId}
+                                onFinalVersionChange={version => handleFinalVersionChange(activeLevel.id, version)}
                                 language={language}
                             />
                         )}
                         
                         {currentStep === 'step3' && (
                             <Step3SceneGeneration 
-                                finalPlanImage={renderedImage}
+                                key={activeLevel.id}
+                                finalPlanImage={activeLevel.renderedImage}
                                 language={language}
                                 style={style}
-                                onStyleChange={setStyle}
-                                scenes={generatedScenes}
-                                onScenesChange={setGeneratedScenes}
-                                scenePoints={scenePoints}
-                                onScenePointsChange={setScenePoints}
+                                onStyleChange={handleStyleChange}
+                                stylePreset={stylePreset}
+                                onStylePresetChange={handleStylePresetChange}
+                                styleDescription={styleDescription}
+                                onStyleDescriptionChange={setStyleDescription}
+                                moodBoard={moodBoard}
+                                onMoodBoardChange={setMoodBoard}
+                                scenes={activeLevel.generatedScenes}
+                                onScenesChange={handleScenesChange(activeLevel.id)}
+                                scenePoints={activeLevel.scenePoints}
+                                onScenePointsChange={levelSetter(activeLevel.id, 'scenePoints')}
+                                planScale={activeLevel.planScale}
+                                northHeading={activeLevel.northHeading}
+                                onNorthHeadingChange={levelSetter(activeLevel.id, 'northHeading')}
+                                designBrief={activeLevel.designBrief}
+                                onDesignBriefChange={levelSetter(activeLevel.id, 'designBrief')}
                             />
                         )}
 
                         {currentStep === 'step4' && (
                             <Step4SceneEditing
-                                scenes={generatedScenes}
-                                onScenesChange={setGeneratedScenes}
+                                key={activeLevel.id}
+                                scenes={activeLevel.generatedScenes}
+                                onScenesChange={handleScenesChange(activeLevel.id)}
                                 language={language}
                             />
                         )}
 
                         {currentStep === 'step5' && (
                             <Step5Presentation
-                                finalPlanImage={renderedImage}
-                                generatedScenes={generatedScenes}
+                                levelPlans={levelPlans}
+                                generatedScenes={allScenes}
                                 style={style}
                                 language={language}
+                                presentationText={presentationText}
+                                onPresentationTextChange={setPresentationText}
                             />
                         )}
+
+                        {levels.length > 1 && (currentStep === 'step1' || currentStep === 'step2') && !canGoNext() && (
+                            <p className="mt-6 text-center text-sm text-amber-600">
+                                {getTranslation(currentStep === 'step1' ? 'levelMissingPlan' : 'levelMissingRendering', language)}
+                            </p>
+                        )}
                     </main>
 
                     {/* Navigation Buttons */}
@@ -235,6 +532,8 @@ function App() {
                             )}
                         </div>
                     </footer>
+                    </>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useEffect, useRef } from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import { DifferenceHeatmap, computeDifferenceHeatmap } from '../lib/imageDiff';
+
+export interface ComparisonImage {
+    url: string;
+    label: string;
+}
+
+type ComparisonMode = 'swipe' | 'sideBySide' | 'onionSkin' | 'difference';
+
+const COMPARISON_MODES: { mode: ComparisonMode; labelKey: Parameters<typeof getTranslation>[0] }[] = [
+    { mode: 'swipe', labelKey: 'compareSwipe' },
+    { mode: 'sideBySide', labelKey: 'compareSideBySide' },
+    { mode: 'onionSkin', labelKey: 'compareOnionSkin' },
+    { mode: 'difference', labelKey: 'compareDifference' },
+];
+
+interface ComparisonModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    before: ComparisonImage;
+    after: ComparisonImage;
+    language: Language;
+}
+
+const ComparisonModal: React.FC<ComparisonModalProps> = ({ isOpen, onClose, before, after, language }) => {
+    const [mode, setMode] = useState<ComparisonMode>('swipe');
+    // The share of the frame, in percent, that shows the earlier image in swipe mode.
+    const [swipePosition, setSwipePosition] = useState(50);
+    const [opacity, setOpacity] = useState(50);
+    const [heatmap, setHeatmap] = useState<DifferenceHeatmap | null>(null);
+    const [isComputingHeatmap, setIsComputingHeatmap] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const swipeRef = useRef<HTMLDivElement>(null);
+
+    // A new pair of images needs a new heatmap.
+    useEffect(() => {
+        setHeatmap(null);
+    }, [before.url, after.url]);
+
+    useEffect(() => {
+        if (!isOpen || mode !== 'difference' || heatmap) return;
+        let isCancelled = false;
+        setIsComputingHeatmap(true);
+        computeDifferenceHeatmap(before.url, after.url)
+            .then(result => {
+                if (!isCancelled) setHeatmap(result);
+            })
+            .catch(error => {
+                console.error('Failed to compare images:', error);
+                if (!isCancelled) {
+                    alert(getTranslation('compareDifferenceFailed', language));
+                    setMode('swipe');
+                }
+            })
+            .finally(() => {
+                if (!isCancelled) setIsComputingHeatmap(false);
+            });
+        return () => {
+            isCancelled = true;
+        };
+    }, [isOpen, mode, heatmap, before.url, after.url]);
+
+    if (!isOpen) return null;
+
+    const moveSwipe = (e: React.PointerEvent<HTMLDivElement>) => {
+        const rect = swipeRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return;
+        setSwipePosition(Math.min(100, Math.max(0, (e.clientX - rect.left) / rect.width * 100)));
+    };
+
+    const labelClass = "absolute top-2 px-2 py-0.5 text-xs font-semibold bg-black/60 text-white rounded pointer-events-none";
+
+    const renderView = () => {
+        switch (mode) {
+            case 'swipe':
+                return (
+                    <div
+                        ref={swipeRef}
+                        className="relative select-none cursor-ew-resize touch-none"
+                        onPointerDown={e => { setIsDragging(true); moveSwipe(e); }}
+                        onPointerMove={e => isDragging && moveSwipe(e)}
+                        onPointerUp={() => setIsDragging(false)}
+                        onPointerLeave={() => setIsDragging(false)}
+                    >
+                        <img src={after.url} alt={after.label} className="w-full h-auto rounded-md block" draggable={false} />
+                        <img
+                            src={before.url}
+                            alt={before.label}
+                            className="absolute inset-0 w-full h-full object-contain rounded-md"
+                            style={{ clipPath: `inset(0 ${100 - swipePosition}% 0 0)` }}
+                            draggable={false}
+                        />
+                        <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${swipePosition}%` }} />
+                        <span className={`${labelClass} left-2`}>{before.label}</span>
+                        <span className={`${labelClass} right-2`}>{after.label}</span>
+                    </div>
+                );
+            case 'sideBySide':
+                return (
+                    <div className="grid grid-cols-2 gap-2">
+                        {[before, after].map((image, index) => (
+                            <figure key={index}>
+                                <img src={image.url} alt={image.label} className="w-full h-auto rounded-md" />
+                                <figcaption className="mt-1 text-center text-sm font-semibold text-slate-700">{image.label}</figcaption>
+                            </figure>
+                        ))}
+                    </div>
+                );
+            case 'onionSkin':
+                return (
+                    <div className="relative">
+                        <img src={before.url} alt={before.label} className="w-full h-auto rounded-md block" />
+                        <img
+                            src={after.url}
+                            alt={after.label}
+                            className="absolute inset-0 w-full h-full object-contain rounded-md"
+                            style={{ opacity: opacity / 100 }}
+                        />
+                    </div>
+                );
+            case 'difference':
+                return heatmap && !isComputingHeatmap ? (
+                    <div>
+                        <img src={heatmap.image} alt={getTranslation('compareDifference', language)} className="w-full h-auto rounded-md" />
+                        <p className="mt-2 text-sm text-slate-600">
+                            {getTranslation('changedArea', language)}: {(heatmap.changedRatio * 100).toFixed(1)}%
+                        </p>
+                    </div>
+                ) : (
+                    <div className="flex flex-col items-center justify-center min-h-[300px]">
+                        <div className="loader border-4 border-indigo-200 border-t-indigo-600 rounded-full w-10 h-10 animate-spin mb-3"></div>
+                        <p className="font-semibold text-slate-600">{getTranslation('computingDifference', language)}</p>
+                    </div>
+                );
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+        >
+            <div
+                className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6"
+                onClick={e => e.stopPropagation()}
+            >
+                <h2 className="text-xl font-bold mb-4 text-slate-800">{getTranslation('compareVersions', language)}</h2>
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {COMPARISON_MODES.map(({ mode: option, labelKey }) => (
+                        <button
+                            key={option}
+                            onClick={() => setMode(option)}
+                            className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${mode === option ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+                        >
+                            {getTranslation(labelKey, language)}
+                        </button>
+                    ))}
+                </div>
+
+                {renderView()}
+
+                {mode === 'swipe' && (
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={swipePosition}
+                        onChange={e => setSwipePosition(Number(e.target.value))}
+                        aria-label={getTranslation('compareSwipe', language)}
+                        className="w-full mt-3"
+                    />
+                )}
+                {mode === 'onionSkin' && (
+                    <label className="flex items-center gap-3 mt-3 text-sm text-slate-700">
+                        <span className="whitespace-nowrap">{before.label}</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={opacity}
+                            onChange={e => setOpacity(Number(e.target.value))}
+                            aria-label={getTranslation('overlayOpacity', language)}
+                            className="w-full"
+                        />
+                        <span className="whitespace-nowrap">{after.label}</span>
+                    </label>
+                )}
+
+                <div className="mt-6 flex justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 bg-slate-200 text-slate-800 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                    >
+                        {getTranslation('closeComparison', language)}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ComparisonModal;
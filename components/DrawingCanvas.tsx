@@ -3,30 +3,155 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import { DEFAULT_MAGIC_TOLERANCE, selectSimilarRegion } from '../lib/magicSelect';
+import { MASK_REGION_COLORS, MaskRegionEdit, RegionEditMode } from '../lib/maskRegions';
+import { segmentObjectAt } from '../services/geminiService';
+
+export type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'ellipse' | 'lasso' | 'magic';
+
+const MASK_TOOLS: { tool: MaskTool; labelKey: Parameters<typeof getTranslation>[0] }[] = [
+    { tool: 'brush', labelKey: 'maskBrush' },
+    { tool: 'eraser', labelKey: 'maskEraser' },
+    { tool: 'rectangle', labelKey: 'maskRectangle' },
+    { tool: 'ellipse', labelKey: 'maskEllipse' },
+    { tool: 'lasso', labelKey: 'maskLasso' },
+    { tool: 'magic', labelKey: 'maskMagicSelect' },
+];
+
+// Sizes are given per 1000 pixels of image width, so the brush feels the same on any resolution.
+const DEFAULT_BRUSH_SIZE = 30;
+// Each undo step keeps a full copy of the mask, so the history is capped.
+const MAX_UNDO_STEPS = 20;
+// How close, in screen pixels, a click must be to the first lasso point to close the shape.
+const LASSO_CLOSE_DISTANCE = 10;
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * A colour-coded area of the selection with its own instruction. Its mask is kept in a canvas of its own.
+ */
+interface MaskRegion {
+    id: string;
+    colorIndex: number;
+    prompt: string;
+}
+
+// One undo step: how each region it changed looked before.
+type MaskSnapshot = { regionId: string; data: ImageData }[];
+
+function createRegion(colorIndex: number): MaskRegion {
+    return { id: crypto.randomUUID(), colorIndex, prompt: '' };
+}
 
 interface DrawingCanvasProps {
     imageUrl: string;
     onMaskChange?: (maskDataUrl: string) => void;
     className?: string;
+    language: Language;
 }
 
 export interface DrawingCanvasRef {
     clearCanvas: () => void;
+    /** The selection of every region combined, as a black-and-white PNG. */
     getMaskBase64: () => string;
+    /** The painted regions with their instructions, and how the user wants them applied. */
+    getRegionEdits: () => { regions: MaskRegionEdit[]; mode: RegionEditMode };
 }
 
-const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ imageUrl, onMaskChange, className = '' }, ref) => {
+const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ imageUrl, onMaskChange, className = '', language }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
-    const [isDrawing, setIsDrawing] = useState(false);
-    const [context, setContext] = useState<CanvasRenderingContext2D | null>(null);
+    // The selection of each region, at the image's resolution: opaque where selected, transparent elsewhere.
+    // The visible canvas only shows them tinted, feathered and with the shape being drawn.
+    const maskCanvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+    const tintCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const undoStackRef = useRef<MaskSnapshot[]>([]);
+    const redoStackRef = useRef<MaskSnapshot[]>([]);
+    const dragStartRef = useRef<Point | null>(null);
+    const lastPointRef = useRef<Point | null>(null);
+    const imageRef = useRef<HTMLImageElement | null>(null);
+    // The image's pixels for magic select, read on first use.
+    const imagePixelsRef = useRef<ImageData | null>(null);
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+    const [hardness, setHardness] = useState(80);
+    const [feather, setFeather] = useState(0);
+    const [maskOpacity, setMaskOpacity] = useState(70);
+    const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+    const [tolerance, setTolerance] = useState(DEFAULT_MAGIC_TOLERANCE);
+    // Whether magic select asks the model to trace the clicked object instead of filling similar colours.
+    const [useModelSegmentation, setUseModelSegmentation] = useState(false);
+    const [isSegmenting, setIsSegmenting] = useState(false);
+    const [undoCount, setUndoCount] = useState(0);
+    const [redoCount, setRedoCount] = useState(0);
+    const [regions, setRegions] = useState<MaskRegion[]>(() => [createRegion(0)]);
+    // The region the tools paint into.
+    const [activeRegionId, setActiveRegionId] = useState<string>(() => regions[0].id);
+    const [regionEditMode, setRegionEditMode] = useState<RegionEditMode>('composed');
+
+    const getMaskCanvas = (regionId: string = activeRegionId): HTMLCanvasElement => {
+        let mask = maskCanvasesRef.current.get(regionId);
+        if (!mask) {
+            mask = document.createElement('canvas');
+            mask.width = canvasRef.current?.width ?? 0;
+            mask.height = canvasRef.current?.height ?? 0;
+            maskCanvasesRef.current.set(regionId, mask);
+        }
+        return mask;
+    };
+
+    // Converts a size in per-1000-pixel units to canvas pixels.
+    const toPixels = (size: number) => size * ((canvasRef.current?.width ?? 0) / 1000);
+
+    const syncHistory = () => {
+        setUndoCount(undoStackRef.current.length);
+        setRedoCount(redoStackRef.current.length);
+    };
+
+    /**
+     * Draws each region's mask in its colour onto the visible canvas, plus an outline of the shape being drawn, if any.
+     */
+    const redraw = (drawPreview?: (ctx: CanvasRenderingContext2D) => void) => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+        const tint = tintCanvasRef.current ??= document.createElement('canvas');
+        tint.width = canvas.width;
+        tint.height = canvas.height;
+        const tintCtx = tint.getContext('2d');
+        if (!tintCtx) return;
+        regions.forEach(region => {
+            const mask = maskCanvasesRef.current.get(region.id);
+            if (!mask) return;
+            tintCtx.globalCompositeOperation = 'source-over';
+            tintCtx.clearRect(0, 0, tint.width, tint.height);
+            tintCtx.filter = feather > 0 ? `blur(${toPixels(feather)}px)` : 'none';
+            tintCtx.drawImage(mask, 0, 0);
+            tintCtx.filter = 'none';
+            tintCtx.globalCompositeOperation = 'source-in';
+            tintCtx.fillStyle = MASK_REGION_COLORS[region.colorIndex].value;
+            tintCtx.fillRect(0, 0, tint.width, tint.height);
+            ctx.drawImage(tint, 0, 0);
+        });
+        if (drawPreview) {
+            ctx.save();
+            ctx.strokeStyle = 'white';
+            ctx.lineWidth = Math.max(2, toPixels(2));
+            ctx.setLineDash([toPixels(8), toPixels(6)]);
+            drawPreview(ctx);
+            ctx.restore();
+        }
+    };
 
     useEffect(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        setContext(ctx);
 
         const img = new Image();
         img.crossOrigin = 'anonymous';
@@ -34,13 +159,29 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ imageU
             // Set canvas to the native resolution of the image to ensure mask aligns perfectly.
             canvas.width = img.naturalWidth;
             canvas.height = img.naturalHeight;
-            // Clear any previous drawings when a new image is loaded.
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            imageRef.current = img;
+            imagePixelsRef.current = null;
+            // Clear any previous selection, its regions and its history when a new image is loaded.
+            const region = createRegion(0);
+            maskCanvasesRef.current = new Map();
+            setRegions([region]);
+            setActiveRegionId(region.id);
+            undoStackRef.current = [];
+            redoStackRef.current = [];
+            setLassoPoints([]);
+            syncHistory();
+            redraw();
         };
         img.src = imageUrl;
     }, [imageUrl]);
 
-    const getScaledCoords = (e: React.PointerEvent<HTMLCanvasElement>): { x: number, y: number } | null => {
+    useEffect(() => {
+        redraw();
+    }, [feather, regions]);
+
+    const getMaskContext = (): CanvasRenderingContext2D | null => getMaskCanvas().getContext('2d');
+
+    const getScaledCoords = (e: React.PointerEvent<HTMLCanvasElement>): Point | null => {
         const canvas = canvasRef.current;
         if (!canvas) return null;
         const rect = canvas.getBoundingClientRect();
@@ -50,60 +191,294 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ imageU
         };
     };
 
+    const takeSnapshot = (regionIds: string[]): MaskSnapshot => regionIds.flatMap(regionId => {
+        const mask = getMaskCanvas(regionId);
+        const ctx = mask.getContext('2d');
+        return ctx && mask.width > 0 ? [{ regionId, data: ctx.getImageData(0, 0, mask.width, mask.height) }] : [];
+    });
+
+    /**
+     * Saves the masks as they are before a change, so the change can be undone as one step.
+     * @param regionIds The regions the change touches; by default the one being painted.
+     */
+    const recordUndoStep = (regionIds: string[] = [activeRegionId]) => {
+        const snapshot = takeSnapshot(regionIds);
+        if (snapshot.length === 0) return;
+        undoStackRef.current = [...undoStackRef.current, snapshot].slice(-MAX_UNDO_STEPS);
+        redoStackRef.current = [];
+        syncHistory();
+    };
+
+    const finishChange = () => {
+        redraw();
+        if (onMaskChange) {
+            onMaskChange(getMaskBase64());
+        }
+    };
+
+    // Soft brushes are drawn as overlapping radial gradients; hardness sets where the fall-off begins.
+    const stamp = (ctx: CanvasRenderingContext2D, point: Point) => {
+        const radius = toPixels(brushSize) / 2;
+        const gradient = ctx.createRadialGradient(point.x, point.y, radius * Math.min(hardness / 100, 0.99), point.x, point.y, radius);
+        gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+        gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+        ctx.fill();
+    };
+
+    const paintSegment = (from: Point, to: Point) => {
+        const ctx = getMaskContext();
+        if (!ctx) return;
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        const spacing = Math.max(1, toPixels(brushSize) / 8);
+        const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+        for (let i = 1; i <= steps; i++) {
+            stamp(ctx, { x: from.x + (to.x - from.x) * i / steps, y: from.y + (to.y - from.y) * i / steps });
+        }
+        ctx.globalCompositeOperation = 'source-over';
+    };
+
+    const traceShape = (ctx: CanvasRenderingContext2D, start: Point, end: Point) => {
+        ctx.beginPath();
+        if (tool === 'ellipse') {
+            ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2, 0, 0, Math.PI * 2);
+        } else {
+            ctx.rect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+        }
+    };
+
+    const traceLasso = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+        ctx.beginPath();
+        points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+    };
+
+    // Adds a closed polygon to the selection as one undo step.
+    const fillPolygon = (points: Point[]) => {
+        const ctx = getMaskContext();
+        if (!ctx || points.length < 3) {
+            redraw();
+            return;
+        }
+        recordUndoStep();
+        traceLasso(ctx, points);
+        ctx.closePath();
+        ctx.fillStyle = 'white';
+        ctx.fill();
+        finishChange();
+    };
+
+    const closeLasso = (points: Point[]) => {
+        setLassoPoints([]);
+        fillPolygon(points);
+    };
+
+    const getImagePixels = (): ImageData | null => {
+        const img = imageRef.current;
+        if (!imagePixelsRef.current && img) {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return null;
+            ctx.drawImage(img, 0, 0);
+            imagePixelsRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        }
+        return imagePixelsRef.current;
+    };
+
+    const selectByColor = (point: Point) => {
+        const pixels = getImagePixels();
+        const ctx = getMaskContext();
+        if (!pixels || !ctx) return;
+        const region = selectSimilarRegion(pixels, point.x, point.y, tolerance);
+        const regionImage = new ImageData(pixels.width, pixels.height);
+        for (let i = 0; i < region.length; i++) {
+            regionImage.data[i * 4] = regionImage.data[i * 4 + 1] = regionImage.data[i * 4 + 2] = 255;
+            regionImage.data[i * 4 + 3] = region[i];
+        }
+        // putImageData would replace the selection, so the region is drawn over it from a canvas of its own.
+        const regionCanvas = document.createElement('canvas');
+        regionCanvas.width = pixels.width;
+        regionCanvas.height = pixels.height;
+        regionCanvas.getContext('2d')?.putImageData(regionImage, 0, 0);
+        recordUndoStep();
+        ctx.drawImage(regionCanvas, 0, 0);
+        finishChange();
+    };
+
+    const selectByModel = async (point: Point) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        setIsSegmenting(true);
+        try {
+            const { outline } = await segmentObjectAt(imageUrl, { x: point.x / canvas.width, y: point.y / canvas.height });
+            fillPolygon(outline.map(corner => ({ x: corner.x * canvas.width, y: corner.y * canvas.height })));
+        } finally {
+            setIsSegmenting(false);
+        }
+    };
+
+    const handleMagicSelect = async (point: Point) => {
+        try {
+            if (useModelSegmentation) {
+                await selectByModel(point);
+            } else {
+                selectByColor(point);
+            }
+        } catch (error) {
+            console.error('Failed to select the clicked area:', error);
+            alert(getTranslation('magicSelectFailed', language));
+        }
+    };
+
+    const handleLassoClick = (point: Point) => {
+        const canvas = canvasRef.current;
+        const first = lassoPoints[0];
+        if (canvas && first && lassoPoints.length >= 3) {
+            const screenScale = canvas.getBoundingClientRect().width / canvas.width;
+            if (Math.hypot(point.x - first.x, point.y - first.y) * screenScale <= LASSO_CLOSE_DISTANCE) {
+                closeLasso(lassoPoints);
+                return;
+            }
+        }
+        const points = [...lassoPoints, point];
+        setLassoPoints(points);
+        redraw(ctx => {
+            traceLasso(ctx, points);
+            ctx.stroke();
+        });
+    };
+
     const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
-        if (!context) return;
         const coords = getScaledCoords(e);
         if (!coords) return;
-
         e.preventDefault();
-        setIsDrawing(true);
-        context.beginPath();
-        context.moveTo(coords.x, coords.y);
+
+        if (tool === 'lasso') {
+            handleLassoClick(coords);
+            return;
+        }
+        if (tool === 'magic') {
+            if (!isSegmenting) handleMagicSelect(coords);
+            return;
+        }
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        recordUndoStep();
+        dragStartRef.current = coords;
+        lastPointRef.current = coords;
+        if (tool === 'brush' || tool === 'eraser') {
+            paintSegment(coords, coords);
+            redraw();
+        }
     };
 
     const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
-        if (!isDrawing || !context || !canvasRef.current) return;
         const coords = getScaledCoords(e);
         if (!coords) return;
+
+        if (tool === 'magic') return;
+        if (tool === 'lasso') {
+            if (lassoPoints.length > 0) {
+                redraw(ctx => {
+                    traceLasso(ctx, [...lassoPoints, coords]);
+                    ctx.stroke();
+                });
+            }
+            return;
+        }
+
+        const start = dragStartRef.current;
+        const last = lastPointRef.current;
+        if (!start || !last) return;
         e.preventDefault();
 
-        context.lineTo(coords.x, coords.y);
-        // Use a semi-transparent red for user feedback; this won't be in the final mask.
-        context.strokeStyle = 'rgba(220, 38, 38, 0.7)';
-        // Scale brush size relative to image resolution for a consistent feel.
-        context.lineWidth = 30 * (canvasRef.current.width / 1000);
-        context.lineCap = 'round';
-        context.lineJoin = 'round';
-        context.stroke();
+        if (tool === 'brush' || tool === 'eraser') {
+            paintSegment(last, coords);
+            redraw();
+        } else {
+            redraw(ctx => {
+                traceShape(ctx, start, coords);
+                ctx.stroke();
+            });
+        }
+        lastPointRef.current = coords;
     };
 
     const stopDrawing = () => {
-        if (!isDrawing) return;
-        setIsDrawing(false);
-        if (onMaskChange) {
-            onMaskChange(getMaskBase64());
+        const start = dragStartRef.current;
+        const last = lastPointRef.current;
+        if (!start || !last) return;
+        dragStartRef.current = null;
+        lastPointRef.current = null;
+
+        if (tool === 'rectangle' || tool === 'ellipse') {
+            const ctx = getMaskContext();
+            if (ctx) {
+                traceShape(ctx, start, last);
+                ctx.fillStyle = 'white';
+                ctx.fill();
+            }
+        }
+        finishChange();
+    };
+
+    const handleDoubleClick = () => {
+        if (tool === 'lasso') {
+            closeLasso(lassoPoints);
         }
     };
 
+    const selectTool = (next: MaskTool) => {
+        setTool(next);
+        setLassoPoints([]);
+        redraw();
+    };
+
+    const restoreFrom = (from: React.MutableRefObject<MaskSnapshot[]>, to: React.MutableRefObject<MaskSnapshot[]>) => {
+        const snapshot = from.current[from.current.length - 1];
+        if (!snapshot) return;
+        to.current = [...to.current, takeSnapshot(snapshot.map(entry => entry.regionId))];
+        from.current = from.current.slice(0, -1);
+        snapshot.forEach(({ regionId, data }) => getMaskCanvas(regionId).getContext('2d')?.putImageData(data, 0, 0));
+        syncHistory();
+        finishChange();
+    };
+
+    const undo = () => restoreFrom(undoStackRef, redoStackRef);
+    const redo = () => restoreFrom(redoStackRef, undoStackRef);
+
+    const invertMask = () => {
+        const ctx = getMaskContext();
+        if (!ctx) return;
+        recordUndoStep();
+        const mask = getMaskCanvas();
+        ctx.globalCompositeOperation = 'xor';
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, mask.width, mask.height);
+        ctx.globalCompositeOperation = 'source-over';
+        finishChange();
+    };
+
     const clearCanvas = () => {
-        if (context && canvasRef.current) {
-            context.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-            if (onMaskChange) {
-                onMaskChange('');
-            }
+        recordUndoStep(regions.map(region => region.id));
+        maskCanvasesRef.current.forEach(mask => mask.getContext('2d')?.clearRect(0, 0, mask.width, mask.height));
+        setLassoPoints([]);
+        redraw();
+        if (onMaskChange) {
+            onMaskChange('');
         }
     };
 
-    const getMaskBase64 = (): string => {
+    /**
+     * Combines masks into a black-and-white PNG, softening the edges by the feather radius.
+     * @returns The PNG as base64, or an empty string when nothing is selected.
+     */
+    const masksToBase64 = (masks: HTMLCanvasElement[]): string => {
         const canvas = canvasRef.current;
-        if (!canvas) return '';
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return '';
-        
-        // Check if anything has been drawn
-        const isCanvasBlank = !ctx.getImageData(0, 0, canvas.width, canvas.height).data.some(channel => channel !== 0);
-        if (isCanvasBlank) return '';
+        if (!canvas || canvas.width === 0 || masks.length === 0) return '';
 
         const maskCanvas = document.createElement('canvas');
         maskCanvas.width = canvas.width;
@@ -111,8 +486,13 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ imageU
         const maskCtx = maskCanvas.getContext('2d');
         if (!maskCtx) return '';
 
-        // Draw the user's marks (which are red and semi-transparent).
-        maskCtx.drawImage(canvas, 0, 0);
+        maskCtx.filter = feather > 0 ? `blur(${toPixels(feather)}px)` : 'none';
+        masks.forEach(mask => maskCtx.drawImage(mask, 0, 0));
+        maskCtx.filter = 'none';
+
+        // Check if anything has been drawn
+        const isCanvasBlank = !maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height).data.some(channel => channel !== 0);
+        if (isCanvasBlank) return '';
 
         // Use 'source-in' to replace the color of the drawn parts with solid white.
         // This preserves the shape and anti-aliasing but makes it a solid color.
@@ -124,36 +504,200 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ imageU
         maskCtx.globalCompositeOperation = 'destination-over';
         maskCtx.fillStyle = 'black';
         maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
-        
+
         return maskCanvas.toDataURL('image/png').split(',')[1];
     };
 
+    const getMaskBase64 = (): string => masksToBase64(regions.flatMap(region => {
+        const mask = maskCanvasesRef.current.get(region.id);
+        return mask ? [mask] : [];
+    }));
+
+    const getRegionEdits = (): { regions: MaskRegionEdit[]; mode: RegionEditMode } => ({
+        regions: regions.flatMap(region => {
+            const mask = maskCanvasesRef.current.get(region.id);
+            const maskBase64 = mask ? masksToBase64([mask]) : '';
+            return maskBase64 ? [{ prompt: region.prompt.trim(), color: MASK_REGION_COLORS[region.colorIndex], maskBase64 }] : [];
+        }),
+        mode: regionEditMode,
+    });
+
+    const addRegion = () => {
+        const used = new Set<number>(regions.map(region => region.colorIndex));
+        const colorIndex = MASK_REGION_COLORS.findIndex((_, index) => !used.has(index));
+        if (colorIndex < 0) return;
+        const region = createRegion(colorIndex);
+        setRegions(prev => [...prev, region]);
+        setActiveRegionId(region.id);
+    };
+
+    const removeRegion = (id: string) => {
+        const remaining = regions.filter(region => region.id !== id);
+        if (remaining.length === 0) return;
+        maskCanvasesRef.current.delete(id);
+        // Undo steps for a removed region have nothing left to restore.
+        const withoutRegion = (stack: MaskSnapshot[]) => stack
+            .map(snapshot => snapshot.filter(entry => entry.regionId !== id))
+            .filter(snapshot => snapshot.length > 0);
+        undoStackRef.current = withoutRegion(undoStackRef.current);
+        redoStackRef.current = withoutRegion(redoStackRef.current);
+        syncHistory();
+        setRegions(remaining);
+        if (activeRegionId === id) setActiveRegionId(remaining[0].id);
+        if (onMaskChange) {
+            onMaskChange(masksToBase64(remaining.flatMap(region => {
+                const mask = maskCanvasesRef.current.get(region.id);
+                return mask ? [mask] : [];
+            })));
+        }
+    };
+
+    const updateRegionPrompt = (id: string, prompt: string) => {
+        setRegions(prev => prev.map(region => region.id === id ? { ...region, prompt } : region));
+    };
+
     useImperativeHandle(ref, () => ({
         clearCanvas,
-        getMaskBase64
+        getMaskBase64,
+        getRegionEdits
     }));
 
+    const isBrush = tool === 'brush' || tool === 'eraser';
+    const toolButtonClass = (active: boolean) => `px-2 py-1 rounded-md text-xs font-semibold transition-colors disabled:opacity-50 ${active ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`;
+
     return (
-        <div ref={containerRef} className={`relative ${className}`}>
-            <img 
-                src={imageUrl} 
-                alt="Base" 
-                className="w-full h-auto object-contain rounded-md block"
-                crossOrigin="anonymous"
-            />
-            <canvas
-                ref={canvasRef}
-                className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none"
-                style={{ touchAction: 'none' }}
-                onPointerDown={startDrawing}
-                onPointerMove={draw}
-                onPointerUp={stopDrawing}
-                onPointerLeave={stopDrawing}
-            />
+        <div className={className}>
+            <div className="flex flex-wrap items-center gap-1 mb-2">
+                {MASK_TOOLS.map(({ tool: option, labelKey }) => (
+                    <button key={option} onClick={() => selectTool(option)} className={toolButtonClass(tool === option)}>
+                        {getTranslation(labelKey, language)}
+                    </button>
+                ))}
+                <span className="mx-1 h-5 border-l border-slate-300" />
+                <button onClick={invertMask} className={toolButtonClass(false)}>{getTranslation('maskInvert', language)}</button>
+                <button onClick={undo} disabled={undoCount === 0} className={toolButtonClass(false)}>{getTranslation('maskUndo', language)}</button>
+                <button onClick={redo} disabled={redoCount === 0} className={toolButtonClass(false)}>{getTranslation('maskRedo', language)}</button>
+            </div>
+            <div className="flex flex-wrap items-center gap-1 mb-2">
+                {regions.map((region, index) => (
+                    <span
+                        key={region.id}
+                        className={`inline-flex items-center rounded-md text-xs font-semibold transition-colors ${region.id === activeRegionId ? 'bg-indigo-100 text-indigo-800 ring-1 ring-indigo-600' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                    >
+                        <button onClick={() => setActiveRegionId(region.id)} className="flex items-center gap-1 px-2 py-1">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: MASK_REGION_COLORS[region.colorIndex].value }} />
+                            {getTranslation('regionLabel', language)} {index + 1}
+                        </button>
+                        {regions.length > 1 && (
+                            <button
+                                onClick={() => removeRegion(region.id)}
+                                title={getTranslation('removeRegion', language)}
+                                aria-label={getTranslation('removeRegion', language)}
+                                className="pr-2 text-slate-500 hover:text-red-600"
+                            >
+                                &times;
+                            </button>
+                        )}
+                    </span>
+                ))}
+                <button onClick={addRegion} disabled={regions.length >= MASK_REGION_COLORS.length} className={toolButtonClass(false)}>
+                    + {getTranslation('addRegion', language)}
+                </button>
+            </div>
+            {regions.length > 1 && (
+                <div className="mb-2 space-y-1 text-xs text-slate-700">
+                    {regions.map((region, index) => (
+                        <label key={region.id} className="flex items-center gap-2">
+                            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: MASK_REGION_COLORS[region.colorIndex].value }} />
+                            <input
+                                type="text"
+                                value={region.prompt}
+                                onChange={e => updateRegionPrompt(region.id, e.target.value)}
+                                onFocus={() => setActiveRegionId(region.id)}
+                                placeholder={`${getTranslation('regionLabel', language)} ${index + 1}: ${getTranslation('regionPromptPlaceholder', language)}`}
+                                className="flex-1 p-1 border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                        </label>
+                    ))}
+                    <label className="flex items-center gap-2">
+                        <span>{getTranslation('regionEditMode', language)}</span>
+                        <select
+                            value={regionEditMode}
+                            onChange={e => setRegionEditMode(e.target.value as RegionEditMode)}
+                            className="p-1 border border-slate-300 rounded-md bg-white"
+                        >
+                            <option value="composed">{getTranslation('regionModeComposed', language)}</option>
+                            <option value="sequential">{getTranslation('regionModeSequential', language)}</option>
+                        </select>
+                    </label>
+                </div>
+            )}
+            <details className="mb-2 text-xs text-slate-700">
+                <summary className="cursor-pointer font-semibold">{getTranslation('maskSettings', language)}</summary>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-1 mt-1">
+                    <label className="block">
+                        <span>{getTranslation('brushSize', language)}</span>
+                        <input type="range" min={5} max={150} step={5} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} disabled={!isBrush} className="w-full" />
+                    </label>
+                    <label className="block">
+                        <span>{getTranslation('brushHardness', language)}</span>
+                        <input type="range" min={0} max={100} step={10} value={hardness} onChange={e => setHardness(Number(e.target.value))} disabled={!isBrush} className="w-full" />
+                    </label>
+                    <label className="block">
+                        <span>{getTranslation('maskFeather', language)}</span>
+                        <input type="range" min={0} max={50} step={1} value={feather} onChange={e => setFeather(Number(e.target.value))} className="w-full" />
+                    </label>
+                    <label className="block">
+                        <span>{getTranslation('maskOpacity', language)}</span>
+                        <input type="range" min={10} max={100} step={10} value={maskOpacity} onChange={e => setMaskOpacity(Number(e.target.value))} className="w-full" />
+                    </label>
+                </div>
+            </details>
+            {tool === 'lasso' && (
+                <p className="mb-2 text-xs text-slate-500">{getTranslation('lassoHint', language)}</p>
+            )}
+            {tool === 'magic' && (
+                <div className="mb-2 space-y-1 text-xs text-slate-700">
+                    <p className="text-slate-500">{getTranslation('magicSelectHint', language)}</p>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <label className="flex items-center gap-2">
+                            <span>{getTranslation('magicTolerance', language)}</span>
+                            <input type="range" min={4} max={128} step={4} value={tolerance} onChange={e => setTolerance(Number(e.target.value))} disabled={useModelSegmentation} />
+                        </label>
+                        <label className="flex items-center gap-1">
+                            <input type="checkbox" checked={useModelSegmentation} onChange={e => setUseModelSegmentation(e.target.checked)} />
+                            <span>{getTranslation('magicUseModel', language)}</span>
+                        </label>
+                    </div>
+                </div>
+            )}
+            <div ref={containerRef} className="relative">
+                <img
+                    src={imageUrl}
+                    alt="Base"
+                    className="w-full h-auto object-contain rounded-md block"
+                    crossOrigin="anonymous"
+                />
+                <canvas
+                    ref={canvasRef}
+                    className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none"
+                    style={{ touchAction: 'none', opacity: maskOpacity / 100 }}
+                    onPointerDown={startDrawing}
+                    onPointerMove={draw}
+                    onPointerUp={stopDrawing}
+                    onPointerCancel={stopDrawing}
+                    onDoubleClick={handleDoubleClick}
+                />
+                {isSegmenting && (
+                    <div className="absolute inset-0 bg-black/40 flex items-center justify-center rounded-md pointer-events-none">
+                        <div className="loader border-4 border-slate-400 border-t-white rounded-full w-10 h-10 animate-spin"></div>
+                    </div>
+                )}
+            </div>
         </div>
     );
 });
 
 DrawingCanvas.displayName = 'DrawingCanvas';
 
-export default DrawingCanvas;
\ No newline at end of file
+export default DrawingCanvas;
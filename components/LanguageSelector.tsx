@@ -2,15 +2,28 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 // FIX: Corrected import path for i18n module.
 import { Language, getTranslation } from '../lib/i18n';
+import { ProjectSummary, listProjects } from '../lib/projectStore';
 
 interface LanguageSelectorProps {
     onLanguageSelect: (language: Language) => void;
+    onResumeSession: (id: string, language: Language) => void;
 }
 
-const LanguageSelector: React.FC<LanguageSelectorProps> = ({ onLanguageSelect }) => {
+// The language has not been chosen yet on this screen, so labels are shown in both languages.
+const bilingual = (key: Parameters<typeof getTranslation>[0]) => `${getTranslation(key, 'zh')} · ${getTranslation(key, 'en')}`;
+
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ onLanguageSelect, onResumeSession }) => {
+    const [latestProject, setLatestProject] = useState<ProjectSummary | null>(null);
+
+    useEffect(() => {
+        listProjects()
+            .then(projects => setLatestProject(projects.find(project => !project.archived) ?? null))
+            .catch(error => console.error('Failed to load saved projects:', error));
+    }, []);
+
     return (
         <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
             <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full text-center">
@@ -38,6 +51,20 @@ const LanguageSelector: React.FC<LanguageSelectorProps> = ({ onLanguageSelect })
                         <span className="text-lg">{getTranslation('english', 'en')}</span>
                     </button>
                 </div>
+
+                {latestProject && (
+                    <div className="mt-8 pt-6 border-t border-slate-200">
+                        <button
+                            onClick={() => onResumeSession(latestProject.id, latestProject.language)}
+                            className="w-full px-6 py-3 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors duration-200"
+                        >
+                            {bilingual('resumeSession')}
+                        </button>
+                        {latestProject.name && (
+                            <p className="mt-2 text-sm text-slate-500 truncate">{latestProject.name}</p>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     );
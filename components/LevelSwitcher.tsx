@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import type { Level } from '../lib/levels';
+
+interface LevelSwitcherProps {
+    levels: Level[];
+    activeLevelId: string;
+    onSelect: (id: string) => void;
+    language: Language;
+    // Management actions are only offered where floors are set up (Step 1).
+    onAdd?: () => void;
+    onRename?: (id: string, name: string) => void;
+    onRemove?: (id: string) => void;
+    onMove?: (id: string, offset: -1 | 1) => void;
+    // Marks floors that are still missing the input the current step needs.
+    isLevelComplete?: (level: Level) => boolean;
+}
+
+const LevelSwitcher: React.FC<LevelSwitcherProps> = ({
+    levels,
+    activeLevelId,
+    onSelect,
+    language,
+    onAdd,
+    onRename,
+    onRemove,
+    onMove,
+    isLevelComplete,
+}) => {
+    const activeIndex = levels.findIndex(level => level.id === activeLevelId);
+    const activeLevel = levels[activeIndex];
+
+    const handleRename = () => {
+        if (!activeLevel || !onRename) return;
+        const name = prompt(getTranslation('renameLevelPrompt', language), activeLevel.name)?.trim();
+        if (name) onRename(activeLevel.id, name);
+    };
+
+    const handleRemove = () => {
+        if (!activeLevel || !onRemove) return;
+        if (confirm(getTranslation('removeLevelConfirm', language))) onRemove(activeLevel.id);
+    };
+
+    const actionClass = "px-2 py-1 text-xs bg-slate-100 text-slate-600 rounded-md hover:bg-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+            <span className="text-sm font-semibold text-slate-600 mr-1">{getTranslation('levels', language)}</span>
+            {levels.map(level => {
+                const isActive = level.id === activeLevelId;
+                const isIncomplete = isLevelComplete ? !isLevelComplete(level) : false;
+                return (
+                    <button
+                        key={level.id}
+                        onClick={() => onSelect(level.id)}
+                        className={`px-3 py-1 text-sm font-semibold rounded-full border transition-colors ${isActive ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-100'}`}
+                    >
+                        {level.name}
+                        {isIncomplete && <span className={`inline-block w-2 h-2 ml-1.5 rounded-full align-middle ${isActive ? 'bg-amber-300' : 'bg-amber-500'}`} />}
+                    </button>
+                );
+            })}
+            {onAdd && (
+                <button
+                    onClick={onAdd}
+                    className="px-3 py-1 text-sm font-semibold text-indigo-600 border border-dashed border-indigo-300 rounded-full hover:bg-indigo-50 transition-colors"
+                >
+                    {getTranslation('addLevel', language)}
+                </button>
+            )}
+            {activeLevel && (onRename || onRemove || onMove) && (
+                <div className="flex gap-1 ml-auto">
+                    {onMove && (
+                        <>
+                            <button onClick={() => onMove(activeLevel.id, -1)} disabled={activeIndex === 0} className={actionClass} title={getTranslation('moveLevelUp', language)}>←</button>
+                            <button onClick={() => onMove(activeLevel.id, 1)} disabled={activeIndex === levels.length - 1} className={actionClass} title={getTranslation('moveLevelDown', language)}>→</button>
+                        </>
+                    )}
+                    {onRename && <button onClick={handleRename} className={actionClass}>{getTranslation('renameLevel', language)}</button>}
+                    {onRemove && (
+                        <button onClick={handleRemove} disabled={levels.length < 2} className={actionClass}>
+                            {getTranslation('removeLevel', language)}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LevelSwitcher;
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import {
+    LIGHTING_PRESETS,
+    LightingPreset,
+    MAX_COLOR_TEMPERATURE,
+    MIN_COLOR_TEMPERATURE,
+    TIMES_OF_DAY,
+    TIME_OF_DAY_LABEL_KEYS,
+    TimeOfDay,
+    WEATHER_LABEL_KEYS,
+    WEATHER_TYPES,
+    Weather,
+    hasDirectSun,
+    isSameLighting,
+} from '../lib/lighting';
+
+interface LightingControlsProps {
+    lighting: LightingPreset;
+    onChange: (lighting: LightingPreset) => void;
+    disabled: boolean;
+    language: Language;
+}
+
+const LightingControls: React.FC<LightingControlsProps> = ({ lighting, onChange, disabled, language }) => {
+    const update = (changes: Partial<LightingPreset>) => onChange({ ...lighting, ...changes });
+    const selectClass = "w-full border border-slate-300 rounded-md px-2 py-1.5 bg-white text-slate-900 disabled:opacity-50";
+
+    return (
+        <div className="space-y-3 text-sm text-slate-700">
+            <div className="flex flex-wrap gap-1.5">
+                {Object.values(LIGHTING_PRESETS).map(preset => (
+                    <button
+                        key={preset.labelKey}
+                        onClick={() => onChange(preset.lighting)}
+                        disabled={disabled}
+                        className={`px-2.5 py-1 rounded-md text-xs font-semibold transition-colors disabled:opacity-50 ${isSameLighting(preset.lighting, lighting) ? 'bg-blue-500 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+                    >
+                        {getTranslation(preset.labelKey, language)}
+                    </button>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <label className="block space-y-1">
+                    <span className="font-semibold">{getTranslation('timeOfDay', language)}</span>
+                    <select
+                        value={lighting.timeOfDay}
+                        onChange={e => update({ timeOfDay: e.target.value as TimeOfDay })}
+                        disabled={disabled}
+                        className={selectClass}
+                    >
+                        {TIMES_OF_DAY.map(time => (
+                            <option key={time} value={time}>{getTranslation(TIME_OF_DAY_LABEL_KEYS[time], language)}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="block space-y-1">
+                    <span className="font-semibold">{getTranslation('weather', language)}</span>
+                    <select
+                        value={lighting.weather}
+                        onChange={e => update({ weather: e.target.value as Weather })}
+                        disabled={disabled}
+                        className={selectClass}
+                    >
+                        {WEATHER_TYPES.map(weather => (
+                            <option key={weather} value={weather}>{getTranslation(WEATHER_LABEL_KEYS[weather], language)}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <label className="block space-y-1">
+                <span className="font-semibold">{getTranslation('sunBearing', language)}</span>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="range"
+                        min={0}
+                        max={345}
+                        step={15}
+                        value={lighting.sunBearing}
+                        onChange={e => update({ sunBearing: Number(e.target.value) })}
+                        disabled={disabled || !hasDirectSun(lighting)}
+                        className="w-full"
+                    />
+                    <span className="w-14 text-right tabular-nums">{lighting.sunBearing}°</span>
+                </div>
+            </label>
+
+            <label className="block space-y-1">
+                <span className="font-semibold">{getTranslation('lampIntensity', language)}</span>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={10}
+                        value={lighting.lampIntensity}
+                        onChange={e => update({ lampIntensity: Number(e.target.value) })}
+                        disabled={disabled}
+                        className="w-full"
+                    />
+                    <span className="w-14 text-right tabular-nums">
+                        {lighting.lampIntensity > 0 ? `${lighting.lampIntensity}%` : getTranslation('lampsOff', language)}
+                    </span>
+                </div>
+            </label>
+
+            <label className="block space-y-1">
+                <span className="font-semibold">{getTranslation('lampTemperature', language)}</span>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="range"
+                        min={MIN_COLOR_TEMPERATURE}
+                        max={MAX_COLOR_TEMPERATURE}
+                        step={100}
+                        value={lighting.temperature}
+                        onChange={e => update({ temperature: parseInt(e.target.value, 10) })}
+                        disabled={disabled || lighting.lampIntensity <= 0}
+                        className="w-full"
+                    />
+                    <span className="w-14 text-right tabular-nums">{lighting.temperature}K</span>
+                </div>
+            </label>
+        </div>
+    );
+};
+
+export default LightingControls;
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { selectModelProvider } from '../services/geminiService';
+import { getActiveProviderId, listImageProviders } from '../services/modelProviders';
+import { Language, getTranslation } from '../lib/i18n';
+
+interface ModelProviderToggleProps {
+    language: Language;
+}
+
+const ModelProviderToggle: React.FC<ModelProviderToggleProps> = ({ language }) => {
+    const [activeProviderId, setActiveProviderId] = useState(getActiveProviderId());
+    const providers = listImageProviders();
+    const isMock = activeProviderId === 'mock';
+
+    const handleChange = (id: string) => {
+        selectModelProvider(id);
+        setActiveProviderId(id);
+    };
+
+    return (
+        <div className="flex flex-col items-start gap-1">
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+                {getTranslation('modelProvider', language)}
+                <select
+                    value={activeProviderId || ''}
+                    onChange={(e) => handleChange(e.target.value)}
+                    disabled={providers.length < 2}
+                    className={`px-2 py-1 text-xs rounded-md border ${isMock ? 'border-amber-400 bg-amber-50 text-amber-800' : 'border-slate-300 bg-white text-slate-700'}`}
+                >
+                    {providers.map(provider => (
+                        <option key={provider.id} value={provider.id}>{provider.label}</option>
+                    ))}
+                </select>
+            </label>
+            {isMock && (
+                <span className="text-xs text-amber-700 text-left max-w-[12rem]">{getTranslation('mockProviderActive', language)}</span>
+            )}
+        </div>
+    );
+};
+
+export default ModelProviderToggle;
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useState } from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import {
+    DEFAULT_PDF_DPI,
+    PDFDocumentProxy,
+    PDF_DPI_OPTIONS,
+    loadPdfDocument,
+    renderPdfPage,
+    renderPdfThumbnail
+} from '../lib/pdfImport';
+
+interface PdfPagePickerProps {
+    file: File;
+    language: Language;
+    onPageSelected: (imageUrl: string) => void;
+    onCancel: () => void;
+}
+
+const THUMBNAIL_WIDTH = 200;
+
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, language, onPageSelected, onCancel }) => {
+    const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+    const [thumbnails, setThumbnails] = useState<string[]>([]);
+    const [selectedPage, setSelectedPage] = useState(1);
+    const [dpi, setDpi] = useState<number>(DEFAULT_PDF_DPI);
+    const [isRendering, setIsRendering] = useState(false);
+    // Kept as a flag rather than a message, so the message follows language changes.
+    const [hasError, setHasError] = useState(false);
+
+    useEffect(() => {
+        // The picker stays mounted when another file is chosen, so start from a clean slate.
+        setPdf(null);
+        setThumbnails([]);
+        setSelectedPage(1);
+        setHasError(false);
+
+        let isCancelled = false;
+        let loadedPdf: PDFDocumentProxy | null = null;
+
+        const load = async () => {
+            try {
+                loadedPdf = await loadPdfDocument(file);
+                if (isCancelled) return;
+                setPdf(loadedPdf);
+
+                // Render previews one page at a time so the first pages appear quickly.
+                for (let pageNumber = 1; pageNumber <= loadedPdf.numPages; pageNumber++) {
+                    const thumbnail = await renderPdfThumbnail(loadedPdf, pageNumber, THUMBNAIL_WIDTH);
+                    if (isCancelled) return;
+                    setThumbnails(prev => [...prev, thumbnail]);
+                }
+            } catch (err) {
+                if (isCancelled) return;
+                console.error('Failed to read PDF:', err);
+                setHasError(true);
+            }
+        };
+
+        load();
+        return () => {
+            isCancelled = true;
+            loadedPdf?.destroy();
+        };
+    }, [file]);
+
+    const handleUsePage = async () => {
+        if (!pdf) return;
+        setIsRendering(true);
+        setHasError(false);
+        try {
+            onPageSelected(await renderPdfPage(pdf, selectedPage, dpi));
+        } catch (err) {
+            console.error('Failed to rasterise PDF page:', err);
+            setHasError(true);
+        } finally {
+            setIsRendering(false);
+        }
+    };
+
+    const pageCount = pdf?.numPages ?? 0;
+
+    return (
+        <div className="w-full max-w-3xl bg-white border border-slate-200 rounded-lg p-4 space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-3">
+                <div>
+                    <h3 className="font-bold text-slate-900">{getTranslation('pdfSelectPage', language)}</h3>
+                    <p className="text-sm text-slate-500 truncate">{file.name}</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                    {getTranslation('pdfResolution', language)}
+                    <select
+                        value={dpi}
+                        onChange={e => setDpi(Number(e.target.value))}
+                        className="border border-slate-300 rounded-md px-2 py-1 bg-white"
+                        disabled={isRendering}
+                    >
+                        {PDF_DPI_OPTIONS.map(option => (
+                            <option key={option} value={option}>{option} DPI</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {hasError && <p className="text-sm text-red-600">{getTranslation('pdfLoadFailed', language)}</p>}
+
+            {!pdf && !hasError ? (
+                <div className="flex items-center justify-center gap-3 p-8 text-slate-500">
+                    <div className="loader border-4 border-indigo-200 border-t-indigo-600 rounded-full w-8 h-8 animate-spin" />
+                    <span>{getTranslation('pdfLoading', language)}</span>
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 max-h-[50vh] overflow-y-auto p-1">
+                    {Array.from({ length: pageCount }, (_, index) => index + 1).map(pageNumber => (
+                        <button
+                            key={pageNumber}
+                            onClick={() => setSelectedPage(pageNumber)}
+                            className={`rounded-md border-2 p-1 bg-slate-50 transition-colors ${selectedPage === pageNumber ? 'border-indigo-600' : 'border-transparent hover:border-slate-300'}`}
+                        >
+                            {thumbnails[pageNumber - 1] ? (
+                                <img src={thumbnails[pageNumber - 1]} alt={`${getTranslation('pdfPage', language)} ${pageNumber}`} className="w-full h-auto" />
+                            ) : (
+                                <div className="w-full aspect-[3/4] bg-slate-200 animate-pulse" />
+                            )}
+                            <span className="block text-xs text-slate-600 mt-1">{getTranslation('pdfPage', language)} {pageNumber}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                >
+                    {getTranslation('cancel', language)}
+                </button>
+                <button
+                    onClick={handleUsePage}
+                    disabled={!pdf || isRendering}
+                    className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isRendering ? getTranslation('pdfRendering', language) : getTranslation('pdfUsePage', language)}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default PdfPagePicker;
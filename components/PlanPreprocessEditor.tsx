@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { PointerEvent, useEffect, useRef, useState } from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import {
+    CornerQuad,
+    DEFAULT_CORNERS,
+    DEFAULT_PREPROCESS_SETTINGS,
+    DEFAULT_THRESHOLD,
+    NormalizedPoint,
+    PreprocessSettings,
+    applyPreprocessing,
+    renderPreprocessPreview
+} from '../lib/imagePreprocess';
+
+interface PlanPreprocessEditorProps {
+    sourceImage: string;
+    language: Language;
+    onApply: (imageUrl: string) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_SIZE = 1200;
+const MIN_CROP_SIZE = 0.05;
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+const cropToPoints = ({ left, top, right, bottom }: PreprocessSettings['crop']): NormalizedPoint[] => [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom },
+];
+
+const PlanPreprocessEditor: React.FC<PlanPreprocessEditorProps> = ({ sourceImage, language, onApply, onCancel }) => {
+    const [settings, setSettings] = useState<PreprocessSettings>(DEFAULT_PREPROCESS_SETTINGS);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [draggingHandle, setDraggingHandle] = useState<number | null>(null);
+    const stageRef = useRef<HTMLDivElement>(null);
+
+    const { quarterTurns, fineRotation, brightness, contrast, threshold } = settings;
+
+    useEffect(() => {
+        let isCancelled = false;
+        // Wait for slider movement to settle before re-rendering the preview.
+        const timer = setTimeout(() => {
+            renderPreprocessPreview(sourceImage, settings, PREVIEW_SIZE)
+                .then(url => { if (!isCancelled) setPreviewUrl(url); })
+                .catch(err => console.error('Failed to render preview:', err));
+        }, 150);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timer);
+        };
+    }, [sourceImage, quarterTurns, fineRotation, brightness, contrast, threshold]);
+
+    const updateSettings = (patch: Partial<PreprocessSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+    const handlePoints = settings.corners ?? cropToPoints(settings.crop);
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (draggingHandle === null || !stageRef.current) return;
+        const rect = stageRef.current.getBoundingClientRect();
+        const point = {
+            x: clamp((e.clientX - rect.left) / rect.width),
+            y: clamp((e.clientY - rect.top) / rect.height),
+        };
+
+        setSettings(prev => {
+            if (prev.corners) {
+                const corners = [...prev.corners] as CornerQuad;
+                corners[draggingHandle] = point;
+                return { ...prev, corners };
+            }
+            // Crop handles move the two edges that meet at their corner.
+            const crop = { ...prev.crop };
+            if (draggingHandle === 0 || draggingHandle === 3) crop.left = Math.min(point.x, crop.right - MIN_CROP_SIZE);
+            else crop.right = Math.max(point.x, crop.left + MIN_CROP_SIZE);
+            if (draggingHandle === 0 || draggingHandle === 1) crop.top = Math.min(point.y, crop.bottom - MIN_CROP_SIZE);
+            else crop.bottom = Math.max(point.y, crop.top + MIN_CROP_SIZE);
+            return { ...prev, crop };
+        });
+    };
+
+    const handleApply = async () => {
+        setIsApplying(true);
+        setError(null);
+        try {
+            onApply(await applyPreprocessing(sourceImage, settings));
+        } catch (err) {
+            console.error('Failed to clean up plan:', err);
+            setError(`${getTranslation('preprocessFailed', language)} ${err instanceof Error ? err.message : ''}`);
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const sliderClass = 'w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer';
+    const toolButtonClass = (isActive: boolean) => `px-3 py-1 text-sm font-semibold rounded-md transition-colors ${isActive ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`;
+
+    return (
+        <div className="w-full max-w-4xl bg-white border border-slate-200 rounded-lg p-4 space-y-4">
+            <h3 className="font-bold text-slate-900">{getTranslation('preprocessTitle', language)}</h3>
+
+            <div className="flex flex-col md:flex-row gap-4">
+                <div className="md:w-2/3 flex items-center justify-center bg-slate-100 rounded-md p-2 min-h-[300px]">
+                    {previewUrl ? (
+                        <div
+                            ref={stageRef}
+                            className="relative inline-block touch-none select-none"
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={() => setDraggingHandle(null)}
+                            onPointerLeave={() => setDraggingHandle(null)}
+                        >
+                            <img src={previewUrl} alt={getTranslation('originalPlanReference', language)} className="block max-w-full max-h-[60vh]" draggable={false} />
+                            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                                <polygon
+                                    points={handlePoints.map(({ x, y }) => `${x},${y}`).join(' ')}
+                                    fill="rgba(79, 70, 229, 0.12)"
+                                    stroke="rgb(79, 70, 229)"
+                                    strokeWidth={2}
+                                    vectorEffect="non-scaling-stroke"
+                                />
+                            </svg>
+                            {handlePoints.map(({ x, y }, index) => (
+                                <div
+                                    key={index}
+                                    onPointerDown={e => {
+                                        e.currentTarget.setPointerCapture(e.pointerId);
+                                        setDraggingHandle(index);
+                                    }}
+                                    onPointerUp={e => e.currentTarget.releasePointerCapture(e.pointerId)}
+                                    className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-indigo-600 cursor-move shadow"
+                                    style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="loader border-4 border-indigo-200 border-t-indigo-600 rounded-full w-8 h-8 animate-spin" />
+                    )}
+                </div>
+
+                <div className="md:w-1/3 space-y-4 text-sm text-slate-700">
+                    <div className="space-y-2">
+                        <span className="block font-semibold">{getTranslation('preprocessGeometry', language)}</span>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={() => updateSettings({ corners: null })} className={toolButtonClass(!settings.corners)}>
+                                {getTranslation('preprocessCrop', language)}
+                            </button>
+                            <button onClick={() => updateSettings({ corners: settings.corners ?? DEFAULT_CORNERS })} className={toolButtonClass(!!settings.corners)}>
+                                {getTranslation('preprocessPerspective', language)}
+                            </button>
+                        </div>
+                        <p className="text-xs text-slate-500">
+                            {getTranslation(settings.corners ? 'preprocessPerspectiveHint' : 'preprocessCropHint', language)}
+                        </p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <span className="block font-semibold">{getTranslation('preprocessRotation', language)}</span>
+                        <div className="flex gap-2">
+                            <button onClick={() => updateSettings({ quarterTurns: (quarterTurns + 3) % 4 })} className={toolButtonClass(false)}>
+                                ⟲ 90°
+                            </button>
+                            <button onClick={() => updateSettings({ quarterTurns: (quarterTurns + 1) % 4 })} className={toolButtonClass(false)}>
+                                ⟳ 90°
+                            </button>
+                        </div>
+                        <label className="block">
+                            {getTranslation('preprocessFineRotation', language)}: {fineRotation.toFixed(1)}°
+                            <input type="range" min={-45} max={45} step={0.5} value={fineRotation} onChange={e => updateSettings({ fineRotation: Number(e.target.value) })} className={sliderClass} />
+                        </label>
+                    </div>
+
+                    <div className="space-y-2">
+                        <span className="block font-semibold">{getTranslation('preprocessTone', language)}</span>
+                        <label className="block">
+                            {getTranslation('preprocessBrightness', language)}: {brightness}
+                            <input type="range" min={-100} max={100} value={brightness} onChange={e => updateSettings({ brightness: Number(e.target.value) })} className={sliderClass} />
+                        </label>
+                        <label className="block">
+                            {getTranslation('preprocessContrast', language)}: {contrast}
+                            <input type="range" min={-100} max={100} value={contrast} onChange={e => updateSettings({ contrast: Number(e.target.value) })} className={sliderClass} />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={threshold !== null}
+                                onChange={e => updateSettings({ threshold: e.target.checked ? DEFAULT_THRESHOLD : null })}
+                                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            {getTranslation('preprocessThreshold', language)}
+                        </label>
+                        {threshold !== null && (
+                            <input type="range" min={0} max={255} value={threshold} onChange={e => updateSettings({ threshold: Number(e.target.value) })} className={sliderClass} />
+                        )}
+                    </div>
+
+                    <button onClick={() => setSettings(DEFAULT_PREPROCESS_SETTINGS)} className="text-sm text-slate-500 hover:text-slate-700 underline">
+                        {getTranslation('preprocessReset', language)}
+                    </button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                >
+                    {getTranslation('cancel', language)}
+                </button>
+                <button
+                    onClick={handleApply}
+                    disabled={isApplying}
+                    className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isApplying ? getTranslation('preprocessApplying', language) : getTranslation('preprocessApply', language)}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default PlanPreprocessEditor;
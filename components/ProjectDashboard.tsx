@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useState } from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import type { WizardStep } from '../lib/projectFile';
+import {
+    ProjectSummary,
+    StorageEstimate,
+    deleteProject,
+    duplicateProject,
+    getStorageEstimate,
+    listProjects,
+    renameProject,
+    setProjectArchived
+} from '../lib/projectStore';
+
+interface ProjectDashboardProps {
+    language: Language;
+    onCreateProject: () => void;
+    onOpenProject: (id: string) => void;
+}
+
+const stepLabelKeys = {
+    step1: 'stepUpload',
+    step2: 'stepRendering',
+    step3: 'stepGeneration',
+    step4: 'step4SceneEditing',
+    step5: 'step5Presentation',
+} as const satisfies Record<WizardStep, string>;
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const Thumbnail = ({ src, alt }: { src?: string; alt: string }) => (
+    src
+        ? <img src={src} alt={alt} className="w-full h-full object-cover" />
+        : <div className="w-full h-full bg-slate-100" />
+);
+
+const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ language, onCreateProject, onOpenProject }) => {
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showArchived, setShowArchived] = useState(false);
+    const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+
+    const refreshProjects = async () => {
+        try {
+            setProjects(await listProjects());
+            setStorageEstimate(await getStorageEstimate());
+        } catch (error) {
+            console.error('Failed to load projects:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        refreshProjects();
+    }, []);
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+        } catch (error) {
+            console.error('Project action failed:', error);
+            alert(`${getTranslation('projectActionFailed', language)} ${error instanceof Error ? error.message : ''}`);
+        }
+        refreshProjects();
+    };
+
+    const handleRename = (project: ProjectSummary) => {
+        const name = prompt(getTranslation('renameProjectPrompt', language), project.name);
+        if (name && name.trim() && name !== project.name) {
+            runAction(() => renameProject(project.id, name.trim()));
+        }
+    };
+
+    const handleDuplicate = (project: ProjectSummary) => {
+        runAction(() => duplicateProject(project.id, `${project.name} ${getTranslation('copySuffix', language)}`));
+    };
+
+    const handleDelete = (project: ProjectSummary) => {
+        if (confirm(getTranslation('deleteProjectConfirm', language))) {
+            runAction(() => deleteProject(project.id));
+        }
+    };
+
+    const visibleProjects = projects.filter(project => project.archived === showArchived);
+    const archivedCount = projects.filter(project => project.archived).length;
+
+    return (
+        <div className="w-full max-w-6xl mx-auto">
+            <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4">
+                <div className="text-center md:text-left">
+                    <h2 className="text-2xl font-bold text-slate-900">{getTranslation('projectsTitle', language)}</h2>
+                    <p className="text-slate-500">{getTranslation('projectsDescription', language)}</p>
+                </div>
+                <div className="flex gap-3 shrink-0">
+                    <button
+                        onClick={() => setShowArchived(prev => !prev)}
+                        className="px-4 py-2 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                    >
+                        {showArchived ? getTranslation('showActiveProjects', language) : `${getTranslation('showArchivedProjects', language)} (${archivedCount})`}
+                    </button>
+                    <button
+                        onClick={onCreateProject}
+                        className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors"
+                    >
+                        {getTranslation('newProject', language)}
+                    </button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center p-12">
+                    <div className="loader border-4 border-indigo-200 border-t-indigo-600 rounded-full w-10 h-10 animate-spin" />
+                </div>
+            ) : visibleProjects.length === 0 ? (
+                <div className="text-center text-slate-400 p-12 bg-slate-50 rounded-lg border-2 border-dashed border-slate-300">
+                    {getTranslation(showArchived ? 'noArchivedProjects' : 'noProjects', language)}
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {visibleProjects.map(project => (
+                        <div key={project.id} className="bg-white rounded-lg shadow-md border border-slate-200 flex flex-col overflow-hidden">
+                            <button
+                                onClick={() => onOpenProject(project.id)}
+                                className="grid grid-cols-3 gap-px bg-slate-200 h-28"
+                                aria-label={`${getTranslation('openProject', language)}: ${project.name}`}
+                            >
+                                <Thumbnail src={project.thumbnails.plan} alt={getTranslation('originalPlanReference', language)} />
+                                <Thumbnail src={project.thumbnails.rendering} alt={getTranslation('aiRenderingArea', language)} />
+                                <Thumbnail src={project.thumbnails.scene} alt={getTranslation('viewpoint', language)} />
+                            </button>
+                            <div className="p-4 flex-grow">
+                                <h3 className="font-bold text-slate-900 truncate">{project.name || getTranslation('untitledProject', language)}</h3>
+                                <p className="text-xs text-slate-500 mt-1">
+                                    {getTranslation('lastModified', language)}: {new Date(project.updatedAt).toLocaleString()}
+                                </p>
+                                <p className="text-xs text-slate-500">
+                                    {getTranslation(stepLabelKeys[project.step], language)}
+                                    {project.style && ` · ${project.style}`}
+                                    {` · ${formatMegabytes(project.sizeBytes)}`}
+                                </p>
+                            </div>
+                            <div className="px-4 pb-4 flex flex-wrap gap-2 text-sm">
+                                <button onClick={() => onOpenProject(project.id)} className="px-3 py-1 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700">
+                                    {getTranslation('openProject', language)}
+                                </button>
+                                <button onClick={() => handleRename(project)} className="px-3 py-1 bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300">
+                                    {getTranslation('renameProject', language)}
+                                </button>
+                                <button onClick={() => handleDuplicate(project)} className="px-3 py-1 bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300">
+                                    {getTranslation('duplicateProject', language)}
+                                </button>
+                                <button onClick={() => runAction(() => setProjectArchived(project.id, !project.archived))} className="px-3 py-1 bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300">
+                                    {getTranslation(project.archived ? 'unarchiveProject' : 'archiveProject', language)}
+                                </button>
+                                <button onClick={() => handleDelete(project)} className="px-3 py-1 text-red-600 rounded-md hover:bg-red-50">
+                                    {getTranslation('deleteSession', language)}
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {storageEstimate && (
+                <p className="text-xs text-slate-500 text-center mt-6">
+                    {getTranslation('storageUsage', language)}: {formatMegabytes(storageEstimate.usage)} / {formatMegabytes(storageEstimate.quota)}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ProjectDashboard;
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { PointerEvent, useRef, useState } from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import { LengthUnit, PlanScale, createPlanScale } from '../lib/planScale';
+
+interface ScaleCalibratorProps {
+    image: string;
+    planScale: PlanScale | null;
+    language: Language;
+    onSave: (scale: PlanScale) => void;
+    onCancel: () => void;
+}
+
+type Point = PlanScale['start'];
+
+const ScaleCalibrator: React.FC<ScaleCalibratorProps> = ({ image, planScale, language, onSave, onCancel }) => {
+    const [start, setStart] = useState<Point | null>(planScale?.start ?? null);
+    const [end, setEnd] = useState<Point | null>(planScale?.end ?? null);
+    const [length, setLength] = useState(planScale ? String(planScale.length) : '');
+    const [unit, setUnit] = useState<LengthUnit>(planScale?.unit ?? 'm');
+    const [isDrawing, setIsDrawing] = useState(false);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const imageRef = useRef<HTMLImageElement>(null);
+
+    // Points are kept in the image's natural pixels so they do not depend on the display size.
+    const toImagePoint = (e: PointerEvent<HTMLDivElement>): Point | null => {
+        const img = imageRef.current;
+        if (!img) return null;
+        const rect = img.getBoundingClientRect();
+        return {
+            x: Math.min(Math.max(e.clientX - rect.left, 0), rect.width) * img.naturalWidth / rect.width,
+            y: Math.min(Math.max(e.clientY - rect.top, 0), rect.height) * img.naturalHeight / rect.height,
+        };
+    };
+
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        const point = toImagePoint(e);
+        if (!point) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setStart(point);
+        setEnd(point);
+        setIsDrawing(true);
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (!isDrawing) return;
+        const point = toImagePoint(e);
+        if (point) setEnd(point);
+    };
+
+    const parsedLength = parseFloat(length);
+    const lineLength = start && end ? Math.hypot(end.x - start.x, end.y - start.y) : 0;
+    const canSave = lineLength > 5 && parsedLength > 0;
+
+    const handleSave = () => {
+        const img = imageRef.current;
+        if (!canSave || !start || !end || !img) return;
+        onSave(createPlanScale(start, end, parsedLength, unit, img.naturalWidth, img.naturalHeight));
+    };
+
+    return (
+        <div className="w-full max-w-3xl bg-white border border-slate-200 rounded-lg p-4 space-y-4">
+            <div>
+                <h3 className="font-bold text-slate-900">{getTranslation('scaleTitle', language)}</h3>
+                <p className="text-sm text-slate-500">{getTranslation('scaleInstructions', language)}</p>
+            </div>
+
+            <div
+                className="relative touch-none select-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setIsDrawing(false)}
+            >
+                <img
+                    ref={imageRef}
+                    src={image}
+                    alt={getTranslation('originalPlanReference', language)}
+                    className="w-full h-auto rounded-md"
+                    draggable={false}
+                    onLoad={e => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                />
+                {imageSize && start && end && (
+                    <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${imageSize.width} ${imageSize.height}`} preserveAspectRatio="none">
+                        <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="rgb(220, 38, 38)" strokeWidth={3} vectorEffect="non-scaling-stroke" />
+                    </svg>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-sm text-slate-700">
+                <label className="flex items-center gap-2">
+                    {getTranslation('scaleLength', language)}
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={length}
+                        onChange={e => setLength(e.target.value)}
+                        className="w-28 px-2 py-1 border border-slate-300 rounded-md bg-white"
+                    />
+                </label>
+                <select value={unit} onChange={e => setUnit(e.target.value as LengthUnit)} className="border border-slate-300 rounded-md px-2 py-1 bg-white">
+                    <option value="m">{getTranslation('unitMetres', language)}</option>
+                    <option value="ft">{getTranslation('unitFeet', language)}</option>
+                </select>
+                <div className="flex-grow" />
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                >
+                    {getTranslation('cancel', language)}
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={!canSave}
+                    className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {getTranslation('scaleSave', language)}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ScaleCalibrator;
@@ -5,30 +5,77 @@
 import React, { ChangeEvent, useState } from 'react';
 // FIX: Corrected import path for i18n module.
 import { Language, getTranslation } from '../lib/i18n';
+import { isPdfFile } from '../lib/pdfImport';
+import { isVectorFile } from '../lib/vectorImport';
+import { METRES_PER_FOOT, PlanScale } from '../lib/planScale';
+import PdfPagePicker from './PdfPagePicker';
+import PlanPreprocessEditor from './PlanPreprocessEditor';
+import ScaleCalibrator from './ScaleCalibrator';
+import VectorLayerPicker from './VectorLayerPicker';
 
 interface Step1UploadProps {
-    onImageUpload: (imageUrl: string) => void;
+    /** Called with the plan to use and the unedited image it was derived from. */
+    onImageUpload: (imageUrl: string, sourceImageUrl: string) => void;
     uploadedImage: string | null;
+    sourceImage: string | null;
+    planScale: PlanScale | null;
+    onPlanScaleChange: (scale: PlanScale | null) => void;
     language: Language;
 }
 
-const Step1Upload: React.FC<Step1UploadProps> = ({ onImageUpload, uploadedImage, language }) => {
+const Step1Upload: React.FC<Step1UploadProps> = ({ onImageUpload, uploadedImage, sourceImage, planScale, onPlanScaleChange, language }) => {
     const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [pdfFile, setPdfFile] = useState<File | null>(null);
+    const [vectorFile, setVectorFile] = useState<File | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [isCalibrating, setIsCalibrating] = useState(false);
+    const [showOriginal, setShowOriginal] = useState(false);
+
+    const originalImage = sourceImage || uploadedImage;
+    const hasCleanedImage = !!sourceImage && !!uploadedImage && sourceImage !== uploadedImage;
+
+    const acceptImage = (imageUrl: string, sourceImageUrl: string = imageUrl) => {
+        onImageUpload(imageUrl, sourceImageUrl);
+        setShowOriginal(false);
+
+        // Show analysis indicator
+        setIsAnalyzing(true);
+        setTimeout(() => setIsAnalyzing(false), 1500);
+    };
 
     const handleFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const imageUrl = reader.result as string;
-                onImageUpload(imageUrl);
-                
-                // Show analysis indicator
-                setIsAnalyzing(true);
-                setTimeout(() => setIsAnalyzing(false), 1500);
-            };
-            reader.readAsDataURL(file);
+        // Reset the input so the same file can be chosen again.
+        e.target.value = '';
+        if (!file) return;
+
+        setPdfFile(null);
+        setVectorFile(null);
+        setIsEditing(false);
+        setIsCalibrating(false);
+        if (isPdfFile(file)) {
+            setPdfFile(file);
+            return;
         }
+        if (isVectorFile(file)) {
+            setVectorFile(file);
+            return;
+        }
+
+        const reader = new FileReader();
+        reader.onloadend = () => acceptImage(reader.result as string);
+        reader.readAsDataURL(file);
+    };
+
+    const handleConvertedImage = (imageUrl: string) => {
+        setPdfFile(null);
+        setVectorFile(null);
+        acceptImage(imageUrl);
+    };
+
+    const handleCleanedImage = (imageUrl: string) => {
+        setIsEditing(false);
+        acceptImage(imageUrl, originalImage || imageUrl);
     };
 
     return (
@@ -41,30 +88,50 @@ const Step1Upload: React.FC<Step1UploadProps> = ({ onImageUpload, uploadedImage,
             </p>
             
             <div className="flex flex-col items-center gap-6">
-                <div className="w-full max-w-3xl border-2 border-dashed border-slate-300 rounded-lg p-4 bg-white">
-                    {uploadedImage ? (
-                        <img 
-                            src={uploadedImage} 
-                            alt="上傳的平面圖" 
-                            className="w-full h-auto rounded-md max-h-[60vh] object-contain" 
-                            crossOrigin="anonymous"
-                        />
-                    ) : (
-                        <div className="w-full h-64 bg-slate-50 rounded-md flex flex-col items-center justify-center text-slate-400">
-                            <svg className="w-12 h-12 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path 
-                                    strokeLinecap="round" 
-                                    strokeLinejoin="round" 
-                                    strokeWidth="2" 
-                                    d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-                                />
-                            </svg>
-                            <span className="text-lg font-medium">{getTranslation('uploadPlaceholder', language)}</span>
-                        </div>
-                    )}
-                </div>
+                {isEditing && originalImage ? (
+                    <PlanPreprocessEditor
+                        sourceImage={originalImage}
+                        language={language}
+                        onApply={handleCleanedImage}
+                        onCancel={() => setIsEditing(false)}
+                    />
+                ) : isCalibrating && uploadedImage ? (
+                    <ScaleCalibrator
+                        image={uploadedImage}
+                        planScale={planScale}
+                        language={language}
+                        onSave={scale => {
+                            onPlanScaleChange(scale);
+                            setIsCalibrating(false);
+                        }}
+                        onCancel={() => setIsCalibrating(false)}
+                    />
+                ) : (
+                    <div className="w-full max-w-3xl border-2 border-dashed border-slate-300 rounded-lg p-4 bg-white">
+                        {uploadedImage ? (
+                            <img 
+                                src={showOriginal && originalImage ? originalImage : uploadedImage} 
+                                alt="上傳的平面圖" 
+                                className="w-full h-auto rounded-md max-h-[60vh] object-contain" 
+                                crossOrigin="anonymous"
+                            />
+                        ) : (
+                            <div className="w-full h-64 bg-slate-50 rounded-md flex flex-col items-center justify-center text-slate-400">
+                                <svg className="w-12 h-12 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path 
+                                        strokeLinecap="round" 
+                                        strokeLinejoin="round" 
+                                        strokeWidth="2" 
+                                        d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                                    />
+                                </svg>
+                                <span className="text-lg font-medium">{getTranslation('uploadPlaceholder', language)}</span>
+                            </div>
+                        )}
+                    </div>
+                )}
                 
-                <div>
+                <div className="flex flex-wrap items-center justify-center gap-3">
                     <label 
                         htmlFor="file-upload" 
                         className="cursor-pointer bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
@@ -75,10 +142,61 @@ const Step1Upload: React.FC<Step1UploadProps> = ({ onImageUpload, uploadedImage,
                         id="file-upload" 
                         type="file" 
                         className="hidden" 
-                        accept="image/*" 
+                        accept="image/*,application/pdf,.pdf,.dxf,.svg" 
                         onChange={handleFileUpload}
                     />
+                    {uploadedImage && !isEditing && !isCalibrating && (
+                        <button
+                            onClick={() => setIsEditing(true)}
+                            className="bg-slate-200 text-slate-700 font-semibold py-3 px-6 rounded-lg hover:bg-slate-300 transition-colors duration-200"
+                        >
+                            {getTranslation('preprocessOpen', language)}
+                        </button>
+                    )}
+                    {uploadedImage && !isEditing && !isCalibrating && (
+                        <button
+                            onClick={() => setIsCalibrating(true)}
+                            className="bg-slate-200 text-slate-700 font-semibold py-3 px-6 rounded-lg hover:bg-slate-300 transition-colors duration-200"
+                        >
+                            {getTranslation(planScale ? 'scaleEdit' : 'scaleOpen', language)}
+                        </button>
+                    )}
+                    {hasCleanedImage && !isEditing && !isCalibrating && (
+                        <button
+                            onClick={() => setShowOriginal(prev => !prev)}
+                            className="text-sm text-slate-500 hover:text-slate-700 underline"
+                        >
+                            {getTranslation(showOriginal ? 'preprocessShowCleaned' : 'preprocessShowOriginal', language)}
+                        </button>
+                    )}
                 </div>
+
+                {planScale && uploadedImage && !isCalibrating && (
+                    <p className="text-sm text-slate-600">
+                        {getTranslation('scaleCurrent', language)}: 1 {planScale.unit} = {Math.round(planScale.unit === 'ft' ? planScale.pixelsPerMetre * METRES_PER_FOOT : planScale.pixelsPerMetre)} px
+                        <button onClick={() => onPlanScaleChange(null)} className="ml-3 text-slate-500 hover:text-slate-700 underline">
+                            {getTranslation('scaleClear', language)}
+                        </button>
+                    </p>
+                )}
+
+                {pdfFile && (
+                    <PdfPagePicker
+                        file={pdfFile}
+                        language={language}
+                        onPageSelected={handleConvertedImage}
+                        onCancel={() => setPdfFile(null)}
+                    />
+                )}
+
+                {vectorFile && (
+                    <VectorLayerPicker
+                        file={vectorFile}
+                        language={language}
+                        onImageReady={handleConvertedImage}
+                        onCancel={() => setVectorFile(null)}
+                    />
+                )}
                 
                 {isAnalyzing && (
                     <div className="flex items-center gap-3 p-4 bg-indigo-50 rounded-lg">
@@ -3,59 +3,96 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import React, { useState, useRef, ChangeEvent } from 'react';
-import { generateAIRendering, suggestPlanImprovements } from '../services/geminiService';
+import { generateAIRendering, generateAIRenderingRegions, suggestPlanImprovements } from '../services/geminiService';
 import DrawingCanvas, { DrawingCanvasRef } from './DrawingCanvas';
+import VersionTree from './VersionTree';
+import ComparisonModal, { ComparisonImage } from './ComparisonModal';
 // FIX: Corrected import path for i18n module.
 import { Language, getTranslation } from '../lib/i18n';
-
-interface ImageHistory {
-    url: string;
-    timestamp: number;
-}
+import { RenderingVersion, createRenderingVersion } from '../lib/renderingVersions';
+import { MaskRegionEdit, RegionEditMode } from '../lib/maskRegions';
 
 interface Step2RenderingProps {
     originalImage: string;
-    onRenderingComplete?: (renderedImage: string) => void;
+    versions: RenderingVersion[];
+    onVersionsChange: React.Dispatch<React.SetStateAction<RenderingVersion[]>>;
+    // The version passed on to Step 3, so the step resumes where it left off.
+    finalVersionId: string | null;
+    onFinalVersionChange: (version: RenderingVersion) => void;
     language: Language;
 }
 
-const Step2Rendering: React.FC<Step2RenderingProps> = ({ originalImage, onRenderingComplete, language }) => {
-    const [renderedImage, setRenderedImage] = useState<string>('');
+const Step2Rendering: React.FC<Step2RenderingProps> = ({
+    originalImage,
+    versions,
+    onVersionsChange: setVersions,
+    finalVersionId,
+    onFinalVersionChange,
+    language
+}) => {
+    // The version shown for editing. It only becomes the final plan when generated or marked as final.
+    const [currentVersionId, setCurrentVersionId] = useState<string | null>(finalVersionId);
     const [isGenerating, setIsGenerating] = useState(false);
     const [showConfirmation, setShowConfirmation] = useState(false);
-    const [showEditingControls, setShowEditingControls] = useState(false);
+    const [showEditingControls, setShowEditingControls] = useState(!!finalVersionId);
     const [correctionInput, setCorrectionInput] = useState('');
-    const [imageHistory, setImageHistory] = useState<ImageHistory[]>([]);
     const [currentMask, setCurrentMask] = useState<string>('');
     const [isSuggesting, setIsSuggesting] = useState(false);
     const [numberOfImages, setNumberOfImages] = useState(1);
-    const [generatedOptions, setGeneratedOptions] = useState<string[]>([]);
+    // The candidates of a multi-image batch. They are already in the version tree, so the ones not chosen stay reachable.
+    const [generatedOptions, setGeneratedOptions] = useState<RenderingVersion[]>([]);
     const [isSelecting, setIsSelecting] = useState(false);
-    const [selectedCandidate, setSelectedCandidate] = useState<string | null>(null);
+    const [selectedCandidate, setSelectedCandidate] = useState<RenderingVersion | null>(null);
+    const [comparison, setComparison] = useState<{ before: ComparisonImage; after: ComparisonImage } | null>(null);
     
     const canvasRef = useRef<DrawingCanvasRef>(null);
 
-    const previewSelection = (url: string) => {
-        setSelectedCandidate(url);
+    const currentVersion = versions.find(version => version.id === currentVersionId) ?? null;
+    const renderedImage = currentVersion?.url ?? '';
+    const parentVersion = versions.find(version => version.id === currentVersion?.parentId) ?? null;
+
+    /**
+     * Adds the results of a generation to the version tree, as children of the version they were made from.
+     * @param parentId The version they were made from, when it is not the one shown.
+     */
+    const addVersions = (
+        urls: string[],
+        details: Pick<RenderingVersion, 'kind' | 'prompt' | 'mask'>,
+        parentId: string | null = details.kind === 'initial' ? null : currentVersionId
+    ): RenderingVersion[] => {
+        const created = urls.map(url => createRenderingVersion(url, parentId, details));
+        setVersions(prev => [...prev, ...created]);
+        return created;
+    };
+
+    const showFinalVersion = (version: RenderingVersion) => {
+        setCurrentVersionId(version.id);
+        onFinalVersionChange(version);
+    };
+
+    // A single result replaces the rendering straight away; several are offered for selection.
+    const presentResults = (created: RenderingVersion[]) => {
+        if (created.length === 1) {
+            showFinalVersion(created[0]);
+        } else {
+            setGeneratedOptions(created);
+            setIsSelecting(true);
+        }
+    };
+
+    const previewSelection = (version: RenderingVersion) => {
+        setSelectedCandidate(version);
     };
 
     const confirmSelection = () => {
         if (!selectedCandidate) return;
 
-        // Add the previous image to history before replacing it with the new selection.
-        if (renderedImage && !imageHistory.some(h => h.url === renderedImage)) {
-             setImageHistory(prev => [...prev, { url: renderedImage, timestamp: Date.now() }]);
-        }
-        
-        setRenderedImage(selectedCandidate);
+        showFinalVersion(selectedCandidate);
         setGeneratedOptions([]);
         setIsSelecting(false);
         setSelectedCandidate(null);
         setShowConfirmation(false);
         setShowEditingControls(true);
-        if (onRenderingComplete) {
-            onRenderingComplete(selectedCandidate);
-        }
     };
 
     const cancelSelection = () => {
@@ -74,15 +111,13 @@ const Step2Rendering: React.FC<Step2RenderingProps> = ({ originalImage, onRender
         
         try {
             const results = await generateAIRendering(originalImage, undefined, undefined, numberOfImages);
+            const created = addVersions(results, { kind: 'initial' });
             
-            if (results.length === 1) {
-                setRenderedImage(results[0]);
+            if (created.length === 1) {
+                showFinalVersion(created[0]);
                 setShowConfirmation(true);
-                if (onRenderingComplete) {
-                    onRenderingComplete(results[0]);
-                }
             } else {
-                setGeneratedOptions(results);
+                setGeneratedOptions(created);
                 setIsSelecting(true);
             }
         } catch (error) {
@@ -98,16 +133,73 @@ const Step2Rendering: React.FC<Step2RenderingProps> = ({ originalImage, onRender
         setShowEditingControls(true);
     };
 
+    // The rejected rendering stays in the version tree as a root of its own.
     const rejectRendering = () => {
         setShowConfirmation(false);
-        setImageHistory([]); // Clear history for fresh start
         handleInitialGeneration();
     };
 
+    /**
+     * Applies a separate instruction to each painted region. Regions left without one use the main correction text.
+     */
+    const submitRegionCorrection = async (paintedRegions: MaskRegionEdit[], mode: RegionEditMode, maskBase64: string) => {
+        const regions = paintedRegions.map(region => ({ ...region, prompt: region.prompt || correctionInput.trim() }));
+        if (regions.some(region => !region.prompt)) {
+            alert(getTranslation('enterRegionPromptAlert', language));
+            return;
+        }
+
+        setIsGenerating(true);
+        setIsSelecting(false);
+        setGeneratedOptions([]);
+        setSelectedCandidate(null);
+
+        try {
+            // In sequential mode each region's result builds on the previous one, so it becomes its child.
+            let parentId = currentVersionId;
+            const results = await generateAIRenderingRegions(renderedImage, regions, mode, (url, region) => {
+                const [version] = addVersions([url], {
+                    kind: 'correction',
+                    prompt: region.prompt,
+                    mask: `data:image/png;base64,${region.maskBase64}`,
+                }, parentId);
+                parentId = version.id;
+                showFinalVersion(version);
+            });
+
+            if (mode === 'composed') {
+                showFinalVersion(addVersions(results, {
+                    kind: 'correction',
+                    prompt: regions.map(region => `${region.color.name}: ${region.prompt}`).join('; '),
+                    mask: `data:image/png;base64,${maskBase64}`,
+                })[0]);
+            }
+
+            setCorrectionInput('');
+            if (canvasRef.current) {
+                canvasRef.current.clearCanvas();
+            }
+        } catch (error) {
+            console.error('Failed to apply region corrections:', error);
+            alert(getTranslation('correctionFailed', language));
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
     const submitCorrection = async () => {
         const maskBase64 = canvasRef.current ? canvasRef.current.getMaskBase64() : '';
+        const regionEdits = canvasRef.current?.getRegionEdits();
+        const paintedRegions = regionEdits?.regions ?? [];
 
-        if (!correctionInput.trim()) {
+        if (regionEdits && paintedRegions.length > 1) {
+            await submitRegionCorrection(paintedRegions, regionEdits.mode, maskBase64);
+            return;
+        }
+
+        // When only one region ends up painted, its own instruction takes precedence over the main one.
+        const correction = paintedRegions[0]?.prompt || correctionInput.trim();
+        if (!correction) {
             alert(getTranslation('enterCorrectionAlert', language));
             return;
         }
@@ -120,23 +212,16 @@ const Step2Rendering: React.FC<Step2RenderingProps> = ({ originalImage, onRender
         try {
             const results = await generateAIRendering(
                 renderedImage, 
-                correctionInput, 
+                correction, 
                 maskBase64,
                 numberOfImages
             );
 
-            if (results.length === 1) {
-                if (renderedImage) {
-                    setImageHistory(prev => [...prev, { url: renderedImage, timestamp: Date.now() }]);
-                }
-                setRenderedImage(results[0]);
-                if (onRenderingComplete) {
-                    onRenderingComplete(results[0]);
-                }
-            } else {
-                setGeneratedOptions(results);
-                setIsSelecting(true);
-            }
+            presentResults(addVersions(results, {
+                kind: 'correction',
+                prompt: correction,
+                mask: maskBase64 ? `data:image/png;base64,${maskBase64}` : undefined,
+            }));
             
             setCorrectionInput('');
             if (canvasRef.current) {
@@ -203,19 +288,7 @@ IMPORTANT: Generate a photorealistic architectural visualization with enhanced m
         
         try {
             const results = await generateAIRendering(renderedImage, autoMaterialPrompt, undefined, numberOfImages);
-            
-            if (results.length === 1) {
-                if (renderedImage) {
-                    setImageHistory(prev => [...prev, { url: renderedImage, timestamp: Date.now() }]);
-                }
-                setRenderedImage(results[0]);
-                if (onRenderingComplete) {
-                    onRenderingComplete(results[0]);
-                }
-            } else {
-                setGeneratedOptions(results);
-                setIsSelecting(true);
-            }
+            presentResults(addVersions(results, { kind: 'autoMaterial' }));
         } catch (error) {
             console.error('Failed to apply auto material:', error);
             alert(getTranslation('autoMaterialFailed', language));
@@ -244,19 +317,7 @@ REQUIREMENTS:
     
         try {
             const results = await generateAIRendering(renderedImage, dollhousePrompt, undefined, numberOfImages);
-            
-            if (results.length === 1) {
-                if (renderedImage) {
-                    setImageHistory(prev => [...prev, { url: renderedImage, timestamp: Date.now() }]);
-                }
-                setRenderedImage(results[0]);
-                if (onRenderingComplete) {
-                    onRenderingComplete(results[0]);
-                }
-            } else {
-                setGeneratedOptions(results);
-                setIsSelecting(true);
-            }
+            presentResults(addVersions(results, { kind: 'dollhouse' }));
         } catch (error) {
             console.error('Failed to generate dollhouse view:', error);
             alert(getTranslation('dollhouseGenerationFailed', language));
@@ -265,16 +326,21 @@ REQUIREMENTS:
         }
     };
 
+    // Steps back to the version the current one was made from and passes it on to Step 3 again.
     const restorePrevious = () => {
-        if (imageHistory.length === 0) return;
-        
-        const previous = imageHistory[imageHistory.length - 1];
-        setRenderedImage(previous.url);
-        setImageHistory(prev => prev.slice(0, -1));
-        
-        if (onRenderingComplete) {
-            onRenderingComplete(previous.url);
-        }
+        if (!parentVersion) return;
+        showFinalVersion(parentVersion);
+    };
+
+    const compareWith = (before: ComparisonImage) => {
+        setComparison({ before, after: { url: renderedImage, label: getTranslation('currentVersionLabel', language) } });
+    };
+
+    // Jumping to a version only shows it; the next edit branches from it.
+    const selectVersion = (version: RenderingVersion) => {
+        setCurrentVersionId(version.id);
+        setShowConfirmation(false);
+        setShowEditingControls(true);
     };
 
     const downloadImage = () => {
@@ -354,6 +420,7 @@ REQUIREMENTS:
                                 ref={canvasRef}
                                 imageUrl={renderedImage}
                                 onMaskChange={setCurrentMask}
+                                language={language}
                             />
                         ) : !isSelecting ? (
                             <div className="flex flex-col items-center justify-center h-full min-h-[300px] text-slate-400">
@@ -379,7 +446,7 @@ REQUIREMENTS:
                     {selectedCandidate ? (
                         <div>
                             <h3 className="text-lg font-semibold text-indigo-800 mb-3 text-center">{getTranslation('selectionConfirmationTitle', language)}</h3>
-                            <img src={selectedCandidate} alt="Selected candidate for confirmation" className="w-full max-w-lg mx-auto h-auto rounded-lg mb-4 border-4 border-indigo-500 shadow-lg" />
+                            <img src={selectedCandidate.url} alt="Selected candidate for confirmation" className="w-full max-w-lg mx-auto h-auto rounded-lg mb-4 border-4 border-indigo-500 shadow-lg" />
                             <div className="flex justify-center gap-4">
                                 <button onClick={confirmSelection} className="px-6 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700">
                                     {getTranslation('confirmSelectionButton', language)}
@@ -394,9 +461,9 @@ REQUIREMENTS:
                             <h3 className="text-lg font-semibold text-indigo-800 mb-3">{getTranslation('chooseRenderingTitle', language)}</h3>
                             <p className="text-indigo-700 mb-6">{getTranslation('chooseRenderingDescription', language)}</p>
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                                {generatedOptions.map((url, index) => (
-                                    <div key={index} className="relative group cursor-pointer" onClick={() => previewSelection(url)}>
-                                        <img src={url} alt={`Generated option ${index + 1}`} className="w-full h-auto rounded-lg border-2 border-transparent group-hover:border-indigo-500 transition-all" />
+                                {generatedOptions.map((version, index) => (
+                                    <div key={version.id} className="relative group cursor-pointer" onClick={() => previewSelection(version)}>
+                                        <img src={version.url} alt={`Generated option ${index + 1}`} className="w-full h-auto rounded-lg border-2 border-transparent group-hover:border-indigo-500 transition-all" />
                                         <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-lg">
                                             <span className="px-4 py-2 bg-white text-slate-800 font-semibold rounded-md">
                                                 {getTranslation('selectThisImage', language)}
@@ -495,11 +562,32 @@ REQUIREMENTS:
                         </button>
                         <button 
                             onClick={restorePrevious}
-                            disabled={imageHistory.length === 0 || isGenerating}
+                            disabled={!parentVersion || isGenerating}
                             className="px-4 py-2 bg-slate-600 text-white font-semibold rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50"
                         >
                             {getTranslation('restore', language)}
                         </button>
+                        <button 
+                            onClick={() => currentVersion && onFinalVersionChange(currentVersion)}
+                            disabled={!currentVersion || currentVersion.id === finalVersionId || isGenerating}
+                            className="px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                        >
+                            {getTranslation('useAsFinalPlan', language)}
+                        </button>
+                        <button 
+                            onClick={() => compareWith({ url: originalImage, label: getTranslation('originalPlanLabel', language) })}
+                            disabled={!renderedImage || isGenerating}
+                            className="px-4 py-2 bg-slate-200 text-slate-800 font-semibold rounded-lg hover:bg-slate-300 transition-colors disabled:opacity-50"
+                        >
+                            {getTranslation('compareWithOriginal', language)}
+                        </button>
+                        <button 
+                            onClick={() => parentVersion && compareWith({ url: parentVersion.url, label: getTranslation('previousVersionLabel', language) })}
+                            disabled={!parentVersion || isGenerating}
+                            className="px-4 py-2 bg-slate-200 text-slate-800 font-semibold rounded-lg hover:bg-slate-300 transition-colors disabled:opacity-50"
+                        >
+                            {getTranslation('compareWithPrevious', language)}
+                        </button>
                         <button 
                             onClick={clearMask}
                             className="px-4 py-2 bg-yellow-500 text-white font-semibold rounded-lg hover:bg-yellow-600 transition-colors"
@@ -515,6 +603,25 @@ REQUIREMENTS:
                     </div>
                 </div>
             )}
+
+            <VersionTree
+                versions={versions}
+                currentVersionId={currentVersionId}
+                finalVersionId={finalVersionId}
+                onSelect={selectVersion}
+                disabled={isGenerating || isSelecting}
+                language={language}
+            />
+
+            {comparison && (
+                <ComparisonModal
+                    isOpen
+                    onClose={() => setComparison(null)}
+                    before={comparison.before}
+                    after={comparison.after}
+                    language={language}
+                />
+            )}
         </div>
     );
 };
@@ -2,19 +2,69 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useState, useRef, useEffect } from 'react';
-import { generateInteriorScene, suggestInteriorStyle, suggestStyleIdeas } from '../services/geminiService';
+import React, { useState, useRef, useEffect, ChangeEvent } from 'react';
+import { DesignBrief, DetectedRoom, SceneReferences, ViewpointContext, detectRoomsAndViewpoints, generateDesignBrief, generateInteriorScene, suggestInteriorStyle, suggestStyleIdeas } from '../services/geminiService';
 // FIX: Corrected import path for i18n module.
 import { Language, getTranslation } from '../lib/i18n';
 import JSZip from 'jszip';
 import InteractiveSceneModal from './InteractiveSceneModal';
+import ViewpointSettingsPanel from './ViewpointSettingsPanel';
+import StyleLibraryModal from './StyleLibraryModal';
+import { DEFAULT_LIGHTING, LightingPreset, isSameLighting } from '../lib/lighting';
+import { StylePreset, readMoodBoardImage } from '../lib/styleLibrary';
+import type { PlanScale } from '../lib/planScale';
+import { ROOM_TYPE_DETAILS, RoomType, isPointInPolygon } from '../lib/rooms';
+import { DEFAULT_FIELD_OF_VIEW, drawViewCone, headingBetween } from '../lib/viewpoints';
 
 export interface ScenePoint {
+    id: string;
+    // Position as a fraction (0–1) of the plan's width and height, independent of how it is displayed.
     x: number;
     y: number;
+    // Compass heading in degrees (0 = top of the plan, clockwise) and horizontal field of view.
+    // Points placed with a plain click have no direction and let the model choose the view.
+    heading?: number;
+    fov?: number;
+    // The kind of room the viewpoint stands in, tagged by the user or by room detection.
+    roomType?: RoomType;
+    // Overrides of the step's style and lighting for this viewpoint; unset fields follow the defaults.
+    style?: string;
+    lighting?: LightingPreset;
 }
 
+// How far the pointer must travel before a click becomes a drag that sets the heading.
+const MIN_DRAG_DISTANCE = 12;
+// How close a press must be to a viewpoint or its aim handle to pick it up.
+const HIT_RADIUS = 12;
+const CONE_LENGTH = 48;
+
+const getViewDirection = (point: ScenePoint) =>
+    point.heading !== undefined ? { heading: point.heading, fov: point.fov ?? DEFAULT_FIELD_OF_VIEW } : null;
+
+type DisplayPosition = { x: number; y: number };
+
+// The handle at the tip of a viewpoint's cone that turns it; undirected points show it facing north.
+const getAimHandle = (position: DisplayPosition, heading: number | undefined): DisplayPosition => {
+    const angle = ((heading ?? 0) - 90) * Math.PI / 180;
+    return { x: position.x + Math.cos(angle) * CONE_LENGTH, y: position.y + Math.sin(angle) * CONE_LENGTH };
+};
+
+const clampFraction = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// A distinct hue per detected room for its outline on the plan and its swatch in the list.
+const roomHue = (index: number) => (index * 67 + 200) % 360;
+const suggestionKey = (roomIndex: number, cameraIndex: number) => `${roomIndex}-${cameraIndex}`;
+
+// Keeps scenes in viewpoint order and numbered after their viewpoint.
+const alignScenes = (points: ScenePoint[], scenes: GeneratedScene[]): GeneratedScene[] =>
+    points.flatMap((point, index) => {
+        const scene = scenes.find(s => s.pointId === point.id);
+        return scene ? [{ ...scene, viewIndex: index + 1 }] : [];
+    });
+
 export interface GeneratedScene {
+    // The viewpoint this scene was rendered from.
+    pointId: string;
     url: string;
     originalUrl: string; // For restore functionality in Step 4
     viewIndex: number;
@@ -26,8 +76,11 @@ export interface GeneratedScene {
         tilt: number;
         zoom: number;
     };
-    mode: 'day' | 'night';
-    temperature: number;
+    lighting: LightingPreset;
+    // Set when the viewpoint was moved or turned after the scene was rendered.
+    isStale?: boolean;
+    // The viewpoint's room when the scene was rendered; used to title its presentation slide.
+    roomType?: RoomType;
 }
 
 interface Step3SceneGenerationProps {
@@ -35,35 +88,84 @@ interface Step3SceneGenerationProps {
     language: Language;
     style: string;
     onStyleChange: (style: string) => void;
+    // The library preset the style was taken from, if any.
+    stylePreset: StylePreset | null;
+    onStylePresetChange: (preset: StylePreset | null) => void;
+    styleDescription: string;
+    onStyleDescriptionChange: (description: string) => void;
+    // Reference images from the client, matched by every scene.
+    moodBoard: string[];
+    onMoodBoardChange: (images: string[]) => void;
     scenes: GeneratedScene[];
     // Fix: Correctly type the onScenesChange prop to accept a state updater function.
     onScenesChange: React.Dispatch<React.SetStateAction<GeneratedScene[]>>;
     scenePoints: ScenePoint[];
     onScenePointsChange: React.Dispatch<React.SetStateAction<ScenePoint[]>>;
+    planScale: PlanScale | null;
+    northHeading: number;
+    onNorthHeadingChange: (heading: number) => void;
+    // The furniture and material schedule this floor's scenes share in consistency mode.
+    designBrief: DesignBrief | null;
+    onDesignBriefChange: (brief: DesignBrief | null) => void;
 }
 
 const styleEmojis = ['🎨', '🛋️', '🖼️', '🪴', '💡', '🏺'];
 
+// In consistency mode each new view is shown this many finished scenes of the same home.
+const MAX_NEIGHBOUR_SCENES = 2;
+
 const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({ 
     finalPlanImage, 
     language,
     style,
     onStyleChange,
+    stylePreset,
+    onStylePresetChange,
+    styleDescription,
+    onStyleDescriptionChange,
+    moodBoard,
+    onMoodBoardChange,
     scenes,
     onScenesChange,
     scenePoints,
-    onScenePointsChange
+    onScenePointsChange,
+    planScale,
+    northHeading,
+    onNorthHeadingChange,
+    designBrief,
+    onDesignBriefChange
 }) => {
     const [isGenerating, setIsGenerating] = useState(false);
     const [isSuggestingStyle, setIsSuggestingStyle] = useState(false);
     const [selectedSceneIndex, setSelectedSceneIndex] = useState<number | null>(null);
-    const [lightingMode] = useState<'day' | 'night'>('day');
-    const [colorTemperature] = useState(6500);
+    // The lighting every viewpoint uses unless it overrides it.
+    const [lighting, setLighting] = useState<LightingPreset>(DEFAULT_LIGHTING);
     const [suggestedStyles, setSuggestedStyles] = useState<string[]>([]);
     const [isLoadingStyles, setIsLoadingStyles] = useState(true);
+    const [isStyleLibraryOpen, setIsStyleLibraryOpen] = useState(false);
+    // A floor that already has a brief was last generated in consistency mode.
+    const [isConsistencyMode, setIsConsistencyMode] = useState(designBrief !== null);
+    const [isWritingBrief, setIsWritingBrief] = useState(false);
+    const [fieldOfView, setFieldOfView] = useState(DEFAULT_FIELD_OF_VIEW);
+    // The viewpoint being placed while the pointer is held down.
+    const [draftPoint, setDraftPoint] = useState<ScenePoint | null>(null);
+    const [selectedPointId, setSelectedPointId] = useState<string | null>(null);
+    // The plan's size on screen, in CSS pixels; viewpoints are drawn and picked at this size.
+    const [displaySize, setDisplaySize] = useState({ width: 0, height: 0 });
+    const [isDetectingRooms, setIsDetectingRooms] = useState(false);
+    // Rooms and camera spots suggested by the model, shown on the plan until accepted or dismissed.
+    const [detectedRooms, setDetectedRooms] = useState<DetectedRoom[] | null>(null);
+    const [selectedSuggestions, setSelectedSuggestions] = useState<Set<string>>(new Set());
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const imageRef = useRef<HTMLImageElement>(null);
+    const moodBoardInputRef = useRef<HTMLInputElement>(null);
+    // The viewpoint being moved or turned by the current drag.
+    const dragRef = useRef<{ mode: 'move' | 'aim'; pointId: string; start: DisplayPosition; hasChanged: boolean } | null>(null);
+
+    const selectedPoint = scenePoints.find(point => point.id === selectedPointId) ?? null;
+    // Viewpoints are locked while scenes render so results land on the viewpoint they were made for.
+    const isBusy = isGenerating || scenes.some(scene => scene.isLoading);
 
     useEffect(() => {
         const fetchStyles = async () => {
@@ -81,49 +183,173 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
         fetchStyles();
     }, []);
 
+    // Keep the canvas matched to the displayed plan at the screen's pixel density, so viewpoints
+    // stay on the same spot of the plan through window resizes and browser zoom.
     useEffect(() => {
-        if (finalPlanImage && imageRef.current) {
-            setupCanvas();
-        }
+        const image = imageRef.current;
+        if (!image) return;
+
+        const updateDisplaySize = () => setDisplaySize({ width: image.clientWidth, height: image.clientHeight });
+        const observer = new ResizeObserver(updateDisplaySize);
+        observer.observe(image);
+        updateDisplaySize();
+
+        return () => observer.disconnect();
     }, [finalPlanImage]);
 
-    const setupCanvas = () => {
-        const canvas = canvasRef.current;
-        const image = imageRef.current;
-        
-        if (!canvas || !image) return;
-        
-        const updateCanvasSize = () => {
-            if (image.clientWidth > 0) {
-                canvas.width = image.clientWidth;
-                canvas.height = image.clientHeight;
-                drawPoints();
+    const toDisplay = (point: ScenePoint): DisplayPosition => ({ x: point.x * displaySize.width, y: point.y * displaySize.height });
+
+    const getCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): DisplayPosition => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const toFraction = (position: DisplayPosition) => ({
+        x: clampFraction(position.x / displaySize.width),
+        y: clampFraction(position.y / displaySize.height),
+    });
+
+    const updatePoint = (id: string, changes: Partial<ScenePoint>) => {
+        onScenePointsChange(prev => prev.map(point => point.id === id ? { ...point, ...changes } : point));
+    };
+
+    const markSceneStale = (pointId: string) => {
+        onScenesChange(prev => prev.map(scene => scene.pointId === pointId ? { ...scene, isStale: true } : scene));
+    };
+
+    // Press an existing viewpoint to select and move it, or its handle to turn it.
+    // Press elsewhere to place a new viewpoint, then drag towards what the camera should look at.
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (isBusy || displaySize.width === 0) return;
+        const position = getCanvasPoint(e);
+        const isNear = (target: DisplayPosition) => Math.hypot(target.x - position.x, target.y - position.y) <= HIT_RADIUS;
+
+        const hitPoint = [...scenePoints].reverse().find(point => isNear(toDisplay(point)));
+        if (selectedPoint && isNear(getAimHandle(toDisplay(selectedPoint), selectedPoint.heading))) {
+            dragRef.current = { mode: 'aim', pointId: selectedPoint.id, start: position, hasChanged: false };
+        } else if (hitPoint) {
+            setSelectedPointId(hitPoint.id);
+            dragRef.current = { mode: 'move', pointId: hitPoint.id, start: position, hasChanged: false };
+        } else {
+            setSelectedPointId(null);
+            if (scenePoints.length >= 8) {
+                alert(getTranslation('maxViewpointsAlert', language));
+                return;
             }
+            setDraftPoint({ id: crypto.randomUUID(), ...toFraction(position) });
+        }
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const position = getCanvasPoint(e);
+        const drag = dragRef.current;
+        if (drag) {
+            if (!drag.hasChanged && Math.hypot(position.x - drag.start.x, position.y - drag.start.y) < 3) return;
+            drag.hasChanged = true;
+            const point = scenePoints.find(p => p.id === drag.pointId);
+            if (!point) return;
+            if (drag.mode === 'move') {
+                updatePoint(point.id, toFraction(position));
+            } else {
+                updatePoint(point.id, { heading: headingBetween(toDisplay(point), position), fov: point.fov ?? fieldOfView });
+            }
+            return;
+        }
+
+        if (!draftPoint) return;
+        // Headings are measured on screen so the plan's aspect ratio does not skew them.
+        const origin = toDisplay(draftPoint);
+        const isDrag = Math.hypot(position.x - origin.x, position.y - origin.y) >= MIN_DRAG_DISTANCE;
+        setDraftPoint({
+            id: draftPoint.id,
+            x: draftPoint.x,
+            y: draftPoint.y,
+            ...(isDrag ? { heading: headingBetween(origin, position), fov: fieldOfView } : {}),
+        });
+    };
+
+    const handlePointerUp = () => {
+        const drag = dragRef.current;
+        if (drag) {
+            dragRef.current = null;
+            if (drag.hasChanged) markSceneStale(drag.pointId);
+            return;
+        }
+
+        if (!draftPoint) return;
+        const point = draftPoint;
+        setDraftPoint(null);
+        setSelectedPointId(point.id);
+        onScenePointsChange(prev => [...prev, point]);
+    };
+
+    // Any change to a viewpoint's settings makes its rendered scene out of date.
+    const handlePointSettingsChange = (changes: Partial<ScenePoint>) => {
+        if (!selectedPoint) return;
+        updatePoint(selectedPoint.id, changes);
+        markSceneStale(selectedPoint.id);
+    };
+
+    const getViewpointContext = (point: ScenePoint): ViewpointContext => ({
+        planScale,
+        view: getViewDirection(point),
+        roomType: point.roomType,
+        northHeading,
+    });
+
+    const getSceneSettings = (point: ScenePoint) => {
+        const hasOwnStyle = !!point.style?.trim();
+        return {
+            style: hasOwnStyle ? point.style!.trim() : style,
+            lighting: point.lighting ?? lighting,
+            // A viewpoint with a style of its own does not follow the project's preset, mood board or brief.
+            references: hasOwnStyle ? {} : {
+                stylePreset,
+                styleDescription,
+                moodBoard,
+                designBrief: isConsistencyMode && designBrief?.style === style ? designBrief : null,
+            },
         };
+    };
 
-        const observer = new ResizeObserver(updateCanvasSize);
-        observer.observe(image);
-        
-        image.onload = updateCanvasSize;
-        if (image.complete) updateCanvasSize();
+    // Finished scenes of other viewpoints, from the same room first and then the nearest.
+    const pickNeighbourScenes = (point: ScenePoint, finished: Map<string, string>): string[] =>
+        scenePoints
+            .filter(other => other.id !== point.id && finished.has(other.id))
+            .map(other => ({
+                url: finished.get(other.id)!,
+                rank: (other.roomType && other.roomType === point.roomType ? 0 : 2) + Math.hypot(other.x - point.x, other.y - point.y),
+            }))
+            .sort((a, b) => a.rank - b.rank)
+            .slice(0, MAX_NEIGHBOUR_SCENES)
+            .map(neighbour => neighbour.url);
 
-        return () => observer.disconnect();
+    // Writes the floor's design brief, reusing the current one if it was written for this style.
+    const ensureDesignBrief = async (rewrite = false): Promise<DesignBrief> => {
+        if (!rewrite && designBrief && designBrief.style === style) return designBrief;
+        const roomNames = [...new Set<string>(scenePoints.flatMap(point => point.roomType ? [ROOM_TYPE_DETAILS[point.roomType].name] : []))];
+        setIsWritingBrief(true);
+        try {
+            const brief = await generateDesignBrief(finalPlanImage, style, { stylePreset, styleDescription, moodBoard }, roomNames);
+            onDesignBriefChange(brief);
+            return brief;
+        } finally {
+            setIsWritingBrief(false);
+        }
     };
 
-    const addScenePoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
-        if (scenePoints.length >= 8) {
-            alert(getTranslation('maxViewpointsAlert', language));
+    const handleRewriteBrief = async () => {
+        if (!style.trim()) {
+            alert(getTranslation('enterStyleAlert', language));
             return;
         }
-        
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        
-        const rect = canvas.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
-        
-        onScenePointsChange(prev => [...prev, { x, y }]);
+        try {
+            await ensureDesignBrief(true);
+        } catch (error) {
+            console.error(error);
+            alert(getTranslation('designBriefFailed', language));
+        }
     };
 
     const drawPoints = () => {
@@ -132,13 +358,71 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
         
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
+
+        const pixelRatio = window.devicePixelRatio || 1;
+        canvas.width = Math.round(displaySize.width * pixelRatio);
+        canvas.height = Math.round(displaySize.height * pixelRatio);
+        canvas.style.width = `${displaySize.width}px`;
+        canvas.style.height = `${displaySize.height}px`;
+        ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        ctx.clearRect(0, 0, displaySize.width, displaySize.height);
         
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        scenePoints.forEach((point, index) => {
+        detectedRooms?.forEach((room, roomIndex) => {
+            const hue = roomHue(roomIndex);
             ctx.beginPath();
-            ctx.arc(point.x, point.y, 8, 0, 2 * Math.PI);
-            ctx.fillStyle = 'rgba(220, 38, 38, 0.8)';
+            room.polygon.forEach((corner, i) => {
+                const x = corner.x * displaySize.width;
+                const y = corner.y * displaySize.height;
+                if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+            });
+            ctx.closePath();
+            ctx.fillStyle = `hsla(${hue}, 70%, 55%, 0.15)`;
+            ctx.fill();
+            ctx.strokeStyle = `hsla(${hue}, 70%, 40%, 0.9)`;
+            ctx.lineWidth = 2;
+            ctx.stroke();
+
+            const centre = room.polygon.reduce((sum, corner) => ({ x: sum.x + corner.x, y: sum.y + corner.y }), { x: 0, y: 0 });
+            ctx.font = 'bold 12px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillStyle = `hsl(${hue}, 70%, 30%)`;
+            ctx.fillText(room.name, centre.x / room.polygon.length * displaySize.width, centre.y / room.polygon.length * displaySize.height);
+
+            room.cameras.forEach((camera, cameraIndex) => {
+                const x = camera.x * displaySize.width;
+                const y = camera.y * displaySize.height;
+                const isSelected = selectedSuggestions.has(suggestionKey(roomIndex, cameraIndex));
+                const rgb = isSelected ? '16, 185, 129' : '100, 116, 139';
+                drawViewCone(ctx, x, y, camera.heading, camera.fov, CONE_LENGTH, rgb);
+                ctx.beginPath();
+                ctx.arc(x, y, 7, 0, 2 * Math.PI);
+                ctx.fillStyle = `rgba(${rgb}, 0.9)`;
+                ctx.fill();
+            });
+        });
+
+        const points = draftPoint ? [...scenePoints, draftPoint] : scenePoints;
+        points.forEach((scenePoint, index) => {
+            const point = toDisplay(scenePoint);
+            const direction = getViewDirection(scenePoint);
+            if (direction) {
+                drawViewCone(ctx, point.x, point.y, direction.heading, direction.fov, CONE_LENGTH);
+            }
+            const isSelected = scenePoint.id === selectedPointId;
+            if (isSelected) {
+                const handle = getAimHandle(point, scenePoint.heading);
+                ctx.beginPath();
+                ctx.arc(handle.x, handle.y, 6, 0, 2 * Math.PI);
+                ctx.fillStyle = 'white';
+                ctx.fill();
+                ctx.strokeStyle = 'rgba(79, 70, 229, 1)';
+                ctx.lineWidth = 2;
+                ctx.stroke();
+            }
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, isSelected ? 10 : 8, 0, 2 * Math.PI);
+            ctx.fillStyle = isSelected ? 'rgba(79, 70, 229, 0.9)' : 'rgba(220, 38, 38, 0.8)';
             ctx.fill();
             ctx.font = 'bold 12px sans-serif';
             ctx.fillStyle = 'white';
@@ -151,16 +435,76 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
     const clearPoints = () => {
         onScenePointsChange([]);
         onScenesChange([]);
+        setSelectedPointId(null);
         // Redrawing is handled by the useEffect hook
     };
 
-    const removeLastViewpoint = () => {
-        if (scenePoints.length === 0) {
-            alert(getTranslation('allViewpointsCleared', language));
-            return;
+    const deleteSelectedViewpoint = () => {
+        if (!selectedPointId) return;
+        const remaining = scenePoints.filter(point => point.id !== selectedPointId);
+        onScenePointsChange(remaining);
+        onScenesChange(prev => alignScenes(remaining, prev));
+        setSelectedPointId(null);
+    };
+
+    const moveSelectedViewpoint = (offset: -1 | 1) => {
+        const index = scenePoints.findIndex(point => point.id === selectedPointId);
+        const target = index + offset;
+        if (index < 0 || target < 0 || target >= scenePoints.length) return;
+        const reordered = [...scenePoints];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onScenePointsChange(reordered);
+        onScenesChange(prev => alignScenes(reordered, prev));
+    };
+
+    const handleAutoPlace = async () => {
+        if (!finalPlanImage) return;
+
+        setIsDetectingRooms(true);
+        try {
+            const rooms = await detectRoomsAndViewpoints(finalPlanImage);
+            if (rooms.every(room => room.cameras.length === 0)) {
+                alert(getTranslation('noRoomsDetected', language));
+                return;
+            }
+            setDetectedRooms(rooms);
+            setSelectedSuggestions(new Set(rooms.flatMap((room, roomIndex) => room.cameras.map((_, cameraIndex) => suggestionKey(roomIndex, cameraIndex)))));
+            setSelectedPointId(null);
+        } catch (error) {
+            console.error(error);
+            alert(getTranslation('roomDetectionFailed', language));
+        } finally {
+            setIsDetectingRooms(false);
         }
-        onScenePointsChange(prev => prev.slice(0, -1));
-        onScenesChange(prev => prev.slice(0, -1));
+    };
+
+    const toggleSuggestion = (key: string) => {
+        setSelectedSuggestions(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key); else next.add(key);
+            return next;
+        });
+    };
+
+    const acceptSuggestions = (keys: Set<string>) => {
+        if (!detectedRooms) return;
+        const suggested: ScenePoint[] = detectedRooms.flatMap((room, roomIndex) =>
+            room.cameras
+                .filter((_, cameraIndex) => keys.has(suggestionKey(roomIndex, cameraIndex)))
+                .map(camera => ({ id: crypto.randomUUID(), ...camera, roomType: room.type }))
+        );
+        const available = 8 - scenePoints.length;
+        if (suggested.length > available) {
+            alert(getTranslation('maxViewpointsAlert', language));
+        }
+        // Viewpoints placed by hand take the type of the detected room they stand in, unless already tagged.
+        const tagged = scenePoints.map(point => {
+            if (point.roomType) return point;
+            const room = detectedRooms.find(r => r.type && isPointInPolygon(point, r.polygon));
+            return room ? { ...point, roomType: room.type } : point;
+        });
+        onScenePointsChange([...tagged, ...suggested.slice(0, Math.max(available, 0))]);
+        setDetectedRooms(null);
     };
 
     const handleSuggestStyle = async () => {
@@ -168,8 +512,9 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
 
         setIsSuggestingStyle(true);
         try {
-            const suggestedStyle = await suggestInteriorStyle(finalPlanImage);
-            onStyleChange(suggestedStyle);
+            const suggestion = await suggestInteriorStyle(finalPlanImage, moodBoard);
+            onStyleChange(suggestion.name);
+            onStyleDescriptionChange(suggestion.description);
         } catch (error) {
             console.error(error);
             alert(getTranslation('styleSuggestionFailed', language));
@@ -178,11 +523,22 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
         }
     };
     
+    const handleMoodBoardUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        try {
+            onMoodBoardChange([...moodBoard, ...await Promise.all(files.map(readMoodBoardImage))]);
+        } catch (error) {
+            console.error('Failed to read mood-board image:', error);
+            alert(getTranslation('moodBoardUploadFailed', language));
+        }
+    };
+
     const handleCameraUpdate = async (viewIndex: number, newCamera: GeneratedScene['camera']) => {
         const sceneToUpdateIndex = scenes.findIndex(s => s.viewIndex === viewIndex);
         if (sceneToUpdateIndex === -1) return;
 
-        const point = scenePoints[sceneToUpdateIndex];
+        const point = scenePoints.find(p => p.id === scenes[sceneToUpdateIndex].pointId);
         if (!point) {
             console.error("Could not find the original viewpoint for this scene.");
             return;
@@ -196,10 +552,8 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
             const image = imageRef.current;
             if (!image) throw new Error('Reference image for canvas is not available');
 
-            const scaleX = image.naturalWidth / image.clientWidth;
-            const scaleY = image.naturalHeight / image.clientHeight;
-            const scaledX = point.x * scaleX;
-            const scaledY = point.y * scaleY;
+            const scaledX = point.x * image.naturalWidth;
+            const scaledY = point.y * image.naturalHeight;
 
             const sceneToUpdate = scenes[sceneToUpdateIndex];
 
@@ -207,16 +561,17 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
                 finalPlanImage,
                 scaledX,
                 scaledY,
-                style,
+                sceneToUpdate.style,
                 viewIndex,
                 newCamera,
-                sceneToUpdate.mode,
-                sceneToUpdate.temperature
+                sceneToUpdate.lighting,
+                getViewpointContext(point),
+                getSceneSettings(point).references
             );
             
             onScenesChange(prev => prev.map((scene, index) =>
                 index === sceneToUpdateIndex
-                    ? { ...scene, url: newImageUrl, camera: newCamera, isLoading: false }
+                    ? { ...scene, url: newImageUrl, camera: newCamera, isLoading: false, isStale: false, roomType: point.roomType }
                     : scene
             ));
         } catch (error) {
@@ -234,8 +589,102 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
     };
 
 
+    const createPendingScene = (point: ScenePoint): GeneratedScene => {
+        const settings = getSceneSettings(point);
+        return {
+            pointId: point.id,
+            url: '',
+            originalUrl: '',
+            viewIndex: scenePoints.indexOf(point) + 1,
+            style: settings.style,
+            lighting: settings.lighting,
+            isLoading: true,
+            camera: { rotation: 0, tilt: 0, zoom: 1 },
+            roomType: point.roomType,
+        };
+    };
+
+    // Renders one viewpoint and returns its scene, or null if generation failed.
+    const renderViewpoint = async (point: ScenePoint, extraReferences: SceneReferences = {}): Promise<string | null> => {
+        const viewIndex = scenePoints.indexOf(point) + 1;
+        try {
+            const image = imageRef.current;
+            if (!image) throw new Error('Image not available');
+            
+            const scaledX = point.x * image.naturalWidth;
+            const scaledY = point.y * image.naturalHeight;
+            const settings = getSceneSettings(point);
+            
+            const sceneUrl = await generateInteriorScene(
+                finalPlanImage,
+                scaledX,
+                scaledY,
+                settings.style,
+                viewIndex,
+                { rotation: 0, tilt: 0, zoom: 1 },
+                settings.lighting,
+                getViewpointContext(point),
+                { ...settings.references, ...extraReferences }
+            );
+            
+            onScenesChange(prev => prev.map(scene => 
+                scene.pointId === point.id
+                    ? { ...scene, url: sceneUrl, originalUrl: sceneUrl, isLoading: false }
+                    : scene
+            ));
+            return sceneUrl;
+        } catch (error) {
+            console.error(`Scene ${viewIndex} generation failed:`, error);
+            onScenesChange(prev => prev.map(scene => 
+                scene.pointId === point.id
+                    ? { 
+                        ...scene, 
+                        isLoading: false, 
+                        error: error instanceof Error ? error.message : 'Unknown error'
+                      }
+                    : scene
+            ));
+            return null;
+        }
+    };
+
+    // Renders the given viewpoints, replacing their scenes and leaving every other scene as it is.
+    const renderViewpoints = async (points: ScenePoint[]) => {
+        const pointIds = new Set(points.map(point => point.id));
+        onScenesChange(prev => alignScenes(scenePoints, [
+            ...prev.filter(scene => !pointIds.has(scene.pointId)),
+            ...points.map(createPendingScene),
+        ]));
+
+        if (!isConsistencyMode) {
+            await Promise.all(points.map(point => renderViewpoint(point)));
+            return;
+        }
+
+        // Without a brief the scenes still reference each other, so a failure here does not stop generation.
+        let brief: DesignBrief | null = null;
+        if (style.trim()) {
+            try {
+                brief = await ensureDesignBrief();
+            } catch (error) {
+                console.error(error);
+                alert(getTranslation('designBriefFailed', language));
+            }
+        }
+
+        // Render one view at a time so each can match the scenes finished before it.
+        const finished = new Map<string, string>(scenes
+            .filter(scene => scene.url && !scene.error && scene.style === style && !pointIds.has(scene.pointId))
+            .map(scene => [scene.pointId, scene.url]));
+        for (const point of points) {
+            const followsProjectStyle = !point.style?.trim();
+            const sceneUrl = await renderViewpoint(point, followsProjectStyle ? { designBrief: brief, neighbourScenes: pickNeighbourScenes(point, finished) } : {});
+            if (sceneUrl && followsProjectStyle) finished.set(point.id, sceneUrl);
+        }
+    };
+
     const generateScenes = async () => {
-        if (!style.trim()) {
+        if (scenePoints.some(point => !getSceneSettings(point).style.trim())) {
             alert(getTranslation('enterStyleAlert', language));
             return;
         }
@@ -244,65 +693,29 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
             alert(getTranslation('selectViewpointAlert', language));
             return;
         }
+
+        // Only render what is missing or out of date; when everything is current, render all again.
+        const isUpToDate = (point: ScenePoint) => {
+            const scene = scenes.find(s => s.pointId === point.id);
+            const settings = getSceneSettings(point);
+            return !!scene?.url && !scene.isStale && !scene.error
+                && scene.style === settings.style && isSameLighting(scene.lighting, settings.lighting);
+        };
+        const outdated = scenePoints.filter(point => !isUpToDate(point));
         
         setIsGenerating(true);
-        
-        const initialScenes: GeneratedScene[] = scenePoints.map((_, index) => ({
-            url: '',
-            originalUrl: '',
-            viewIndex: index + 1,
-            style: style,
-            isLoading: true,
-            camera: { rotation: 0, tilt: 0, zoom: 1 },
-            mode: lightingMode,
-            temperature: colorTemperature,
-        }));
-        onScenesChange(initialScenes);
-        
-        const generationPromises = scenePoints.map(async (point, index) => {
-            try {
-                const image = imageRef.current;
-                if (!image) throw new Error('Image not available');
-                
-                const scaleX = image.naturalWidth / image.clientWidth;
-                const scaleY = image.naturalHeight / image.clientHeight;
-                const scaledX = point.x * scaleX;
-                const scaledY = point.y * scaleY;
-                
-                const sceneUrl = await generateInteriorScene(
-                    finalPlanImage,
-                    scaledX,
-                    scaledY,
-                    style,
-                    index + 1,
-                    { rotation: 0, tilt: 0, zoom: 1 },
-                    lightingMode,
-                    colorTemperature
-                );
-                
-                onScenesChange(prev => prev.map((scene, i) => 
-                    i === index 
-                        ? { ...scene, url: sceneUrl, originalUrl: sceneUrl, isLoading: false }
-                        : scene
-                ));
-            } catch (error) {
-                console.error(`Scene ${index + 1} generation failed:`, error);
-                onScenesChange(prev => prev.map((scene, i) => 
-                    i === index 
-                        ? { 
-                            ...scene, 
-                            isLoading: false, 
-                            error: error instanceof Error ? error.message : 'Unknown error'
-                          }
-                        : scene
-                ));
-            }
-        });
-        
-        await Promise.all(generationPromises);
+        await renderViewpoints(outdated.length > 0 ? outdated : scenePoints);
         setIsGenerating(false);
     };
 
+    const regenerateScene = async (point: ScenePoint) => {
+        if (!getSceneSettings(point).style.trim()) {
+            alert(getTranslation('enterStyleAlert', language));
+            return;
+        }
+        await renderViewpoints([point]);
+    };
+
     const downloadAllScenesAsZip = async () => {
         const completedScenes = scenes.filter(scene => scene.url && !scene.isLoading && !scene.error);
         
@@ -346,7 +759,7 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
 
     useEffect(() => {
         drawPoints();
-    }, [scenePoints, finalPlanImage]);
+    }, [scenePoints, draftPoint, selectedPointId, displaySize, detectedRooms, selectedSuggestions]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -357,18 +770,102 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
                 {getTranslation('step3Description', language)}
             </p>
             
-            <div className="w-full max-w-3xl mx-auto mb-6 relative border-2 border-slate-300 rounded-lg overflow-hidden">
-                <img 
-                    ref={imageRef}
-                    src={finalPlanImage} 
-                    alt="最終平面圖" 
-                    className="w-full h-auto rounded-md opacity-80"
-                    crossOrigin="anonymous"
-                />
-                <canvas
-                    ref={canvasRef}
-                    className="absolute top-0 left-0 cursor-pointer"
-                    onClick={addScenePoint}
+            <div className="flex flex-col lg:flex-row justify-center items-start gap-6 mb-6">
+                <div className="w-full max-w-3xl">
+                    <div className="w-full relative border-2 border-slate-300 rounded-lg overflow-hidden">
+                        <img 
+                            ref={imageRef}
+                            src={finalPlanImage} 
+                            alt="最終平面圖" 
+                            className="w-full h-auto rounded-md opacity-80"
+                            crossOrigin="anonymous"
+                        />
+                        <canvas
+                            ref={canvasRef}
+                            className="absolute top-0 left-0 cursor-crosshair touch-none"
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={() => dragRef.current ? handlePointerUp() : setDraftPoint(null)}
+                        />
+                    </div>
+
+                    <div className="w-full mt-3 flex flex-wrap items-center justify-between gap-3 text-sm text-slate-600">
+                        <p>{getTranslation('viewpointDragHint', language)}</p>
+                        <button
+                            onClick={handleAutoPlace}
+                            disabled={isDetectingRooms || isBusy}
+                            className="px-3 py-1.5 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center whitespace-nowrap"
+                        >
+                            {isDetectingRooms && <div className="loader border-2 border-indigo-300 border-t-white rounded-full w-4 h-4 animate-spin mr-2"></div>}
+                            {isDetectingRooms ? getTranslation('detectingRooms', language) : getTranslation('autoPlaceViewpoints', language)}
+                        </button>
+                    </div>
+
+                    {detectedRooms && (
+                        <div className="w-full mt-4 bg-white border border-slate-200 rounded-lg p-4">
+                            <h3 className="font-bold text-slate-900">{getTranslation('suggestedViewpoints', language)}</h3>
+                            <p className="text-sm text-slate-500 mb-3">{getTranslation('suggestedViewpointsHint', language)}</p>
+                            <ul className="space-y-2 mb-4">
+                                {detectedRooms.map((room, roomIndex) => (
+                                    <li key={roomIndex} className="flex flex-wrap items-center gap-3 text-sm text-slate-700">
+                                        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: `hsl(${roomHue(roomIndex)}, 70%, 55%)` }} />
+                                        <span className="font-semibold min-w-[8rem]">{room.name}</span>
+                                        {room.cameras.map((camera, cameraIndex) => {
+                                            const key = suggestionKey(roomIndex, cameraIndex);
+                                            return (
+                                                <label key={key} className="flex items-center gap-1.5">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedSuggestions.has(key)}
+                                                        onChange={() => toggleSuggestion(key)}
+                                                        className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                                    />
+                                                    {getTranslation('cameraSpot', language)} {cameraIndex + 1}
+                                                </label>
+                                            );
+                                        })}
+                                    </li>
+                                ))}
+                            </ul>
+                            <div className="flex flex-wrap justify-end gap-2">
+                                <button
+                                    onClick={() => setDetectedRooms(null)}
+                                    className="px-4 py-2 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                                >
+                                    {getTranslation('dismissSuggestions', language)}
+                                </button>
+                                <button
+                                    onClick={() => acceptSuggestions(new Set(detectedRooms.flatMap((room, roomIndex) => room.cameras.map((_, cameraIndex) => suggestionKey(roomIndex, cameraIndex)))))}
+                                    className="px-4 py-2 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                                >
+                                    {getTranslation('addAllViewpoints', language)}
+                                </button>
+                                <button
+                                    onClick={() => acceptSuggestions(selectedSuggestions)}
+                                    disabled={selectedSuggestions.size === 0}
+                                    className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {getTranslation('addSelectedViewpoints', language)} ({selectedSuggestions.size})
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <ViewpointSettingsPanel
+                    point={selectedPoint}
+                    viewIndex={selectedPoint ? scenePoints.indexOf(selectedPoint) + 1 : 0}
+                    style={style}
+                    lighting={lighting}
+                    fieldOfView={fieldOfView}
+                    northHeading={northHeading}
+                    onPointChange={handlePointSettingsChange}
+                    onLightingChange={setLighting}
+                    onFieldOfViewChange={setFieldOfView}
+                    onNorthHeadingChange={onNorthHeadingChange}
+                    disabled={isBusy}
+                    language={language}
                 />
             </div>
 
@@ -399,6 +896,128 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
                             ) : getTranslation('suggestStyleButton', language)}
                         </button>
                     </div>
+                    <button
+                        onClick={() => setIsStyleLibraryOpen(true)}
+                        disabled={isGenerating}
+                        className="px-4 py-2 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors disabled:opacity-50 whitespace-nowrap"
+                    >
+                        {getTranslation('styleLibrary', language)}
+                    </button>
+                </div>
+
+                {stylePreset && (
+                    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-slate-600">
+                        <span>{getTranslation('usingStylePreset', language)} <span className="font-semibold text-slate-800">{stylePreset.name}</span></span>
+                        <div className="flex gap-1">
+                            {stylePreset.palette.map((color, index) => (
+                                <span key={index} className="w-4 h-4 rounded-sm border border-slate-200" style={{ backgroundColor: color }} />
+                            ))}
+                        </div>
+                        {stylePreset.moodBoard.length > 0 && (
+                            <span className="text-xs text-slate-500">({stylePreset.moodBoard.length} {getTranslation('moodBoardImages', language)})</span>
+                        )}
+                        <button
+                            onClick={() => onStylePresetChange(null)}
+                            disabled={isGenerating}
+                            className="px-2 py-0.5 text-xs bg-slate-100 text-slate-600 rounded-md hover:bg-slate-200 transition-colors disabled:opacity-50"
+                        >
+                            {getTranslation('detachStylePreset', language)}
+                        </button>
+                    </div>
+                )}
+
+                <div className="w-full max-w-3xl mx-auto bg-white border border-slate-200 rounded-lg p-4 space-y-3">
+                    <div>
+                        <h3 className="font-bold text-slate-900">{getTranslation('moodBoard', language)}</h3>
+                        <p className="text-sm text-slate-500">{getTranslation('moodBoardHint', language)}</p>
+                    </div>
+                    <input type="file" accept="image/*" multiple ref={moodBoardInputRef} onChange={handleMoodBoardUpload} className="hidden" />
+                    <div className="flex flex-wrap gap-2">
+                        {moodBoard.map((image, index) => (
+                            <div key={index} className="relative">
+                                <img src={image} alt={`${getTranslation('moodBoard', language)} ${index + 1}`} className="w-20 h-20 rounded object-cover border border-slate-200" />
+                                <button
+                                    onClick={() => onMoodBoardChange(moodBoard.filter((_, i) => i !== index))}
+                                    disabled={isGenerating}
+                                    className="absolute -top-2 -right-2 w-5 h-5 bg-white border border-slate-300 rounded-full text-xs text-slate-600 hover:text-red-600 disabled:opacity-50"
+                                    aria-label={getTranslation('removeImage', language)}
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => moodBoardInputRef.current?.click()}
+                            disabled={isGenerating}
+                            className="w-20 h-20 flex items-center justify-center text-sm text-indigo-600 border-2 border-dashed border-indigo-300 rounded hover:bg-indigo-50 transition-colors disabled:opacity-50"
+                        >
+                            {getTranslation('addImages', language)}
+                        </button>
+                    </div>
+                    {(styleDescription || moodBoard.length > 0) && (
+                        <label className="block space-y-1 text-sm">
+                            <span className="font-semibold text-slate-700">{getTranslation('styleDescription', language)}</span>
+                            <textarea
+                                value={styleDescription}
+                                onChange={e => onStyleDescriptionChange(e.target.value)}
+                                rows={2}
+                                placeholder={getTranslation('styleDescriptionPlaceholder', language)}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 bg-white text-slate-900"
+                            />
+                        </label>
+                    )}
+                </div>
+
+                <div className="w-full max-w-3xl mx-auto bg-white border border-slate-200 rounded-lg p-4 space-y-3">
+                    <label className="flex items-start gap-2">
+                        <input
+                            type="checkbox"
+                            checked={isConsistencyMode}
+                            onChange={e => setIsConsistencyMode(e.target.checked)}
+                            disabled={isGenerating}
+                            className="mt-1 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <span>
+                            <span className="block font-bold text-slate-900">{getTranslation('consistencyMode', language)}</span>
+                            <span className="block text-sm text-slate-500">{getTranslation('consistencyModeHint', language)}</span>
+                        </span>
+                    </label>
+                    {isConsistencyMode && (
+                        <div className="space-y-2 text-sm text-slate-700">
+                            {isWritingBrief ? (
+                                <p className="flex items-center text-slate-500">
+                                    <span className="loader border-2 border-slate-300 border-t-indigo-600 rounded-full w-4 h-4 animate-spin mr-2"></span>
+                                    {getTranslation('writingDesignBrief', language)}
+                                </p>
+                            ) : designBrief ? (
+                                <details>
+                                    <summary className="cursor-pointer font-semibold">
+                                        {getTranslation('designBrief', language)} — {designBrief.style}
+                                        {designBrief.style !== style && <span className="ml-2 text-xs font-normal text-amber-600">{getTranslation('designBriefOutdated', language)}</span>}
+                                    </summary>
+                                    <div className="mt-2 space-y-2">
+                                        {designBrief.summary && <p>{designBrief.summary}</p>}
+                                        <ul className="space-y-1">
+                                            {designBrief.rooms.map((room, index) => (
+                                                <li key={index}>
+                                                    <span className="font-semibold">{room.name}:</span> {[...room.furniture, ...room.materials].join(', ')}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </details>
+                            ) : (
+                                <p className="text-slate-500">{getTranslation('designBriefPending', language)}</p>
+                            )}
+                            <button
+                                onClick={handleRewriteBrief}
+                                disabled={isGenerating || isWritingBrief}
+                                className="px-3 py-1.5 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors disabled:opacity-50"
+                            >
+                                {getTranslation(designBrief ? 'rewriteDesignBrief' : 'writeDesignBrief', language)}
+                            </button>
+                        </div>
+                    )}
                 </div>
 
                 <div className="w-full max-w-3xl mx-auto pt-4">
@@ -427,21 +1046,39 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
                 <div className="flex flex-wrap items-center justify-center gap-4 pt-4">
                     <button 
                         onClick={generateScenes}
-                        disabled={isGenerating || scenePoints.length === 0 || !style.trim()}
+                        disabled={isBusy || scenePoints.length === 0 || !style.trim()}
                         className="px-6 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
                     >
                         {isGenerating ? getTranslation('generating', language) : getTranslation('generateScenes', language)}
                     </button>
-                    <button
-                        onClick={removeLastViewpoint}
-                        disabled={isGenerating}
-                        className="px-6 py-2 bg-orange-500 text-white font-semibold rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
-                    >
-                        {getTranslation('removeLastViewpoint', language)}
-                    </button>
+                    <div className="flex">
+                        <button
+                            onClick={() => moveSelectedViewpoint(-1)}
+                            disabled={isBusy || !selectedPoint || scenePoints[0] === selectedPoint}
+                            className="px-3 py-2 bg-orange-500 text-white font-semibold rounded-l-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+                            title={getTranslation('moveViewpointEarlier', language)}
+                        >
+                            ←
+                        </button>
+                        <button
+                            onClick={deleteSelectedViewpoint}
+                            disabled={isBusy || !selectedPoint}
+                            className="px-4 py-2 bg-orange-500 text-white font-semibold border-x border-orange-400 hover:bg-orange-600 transition-colors disabled:opacity-50"
+                        >
+                            {getTranslation('deleteViewpoint', language)}
+                        </button>
+                        <button
+                            onClick={() => moveSelectedViewpoint(1)}
+                            disabled={isBusy || !selectedPoint || scenePoints[scenePoints.length - 1] === selectedPoint}
+                            className="px-3 py-2 bg-orange-500 text-white font-semibold rounded-r-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+                            title={getTranslation('moveViewpointLater', language)}
+                        >
+                            →
+                        </button>
+                    </div>
                     <button 
                         onClick={clearPoints}
-                        disabled={isGenerating}
+                        disabled={isBusy}
                         className="px-6 py-2 bg-yellow-500 text-white font-semibold rounded-lg hover:bg-yellow-600 transition-colors disabled:opacity-50"
                     >
                         {getTranslation('clearViewpoints', language)}
@@ -458,9 +1095,10 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 {Array.from({ length: 8 }, (_, index) => {
-                    const scene = scenes[index];
+                    const point = scenePoints[index];
+                    const scene = point ? scenes.find(s => s.pointId === point.id) : undefined;
                     
-                    if (!scene && scenePoints.length <= index) {
+                    if (!point) {
                          return (
                             <div key={index} className="bg-slate-100 aspect-square rounded-lg flex items-center justify-center text-slate-400">
                                 <span>{getTranslation('viewpoint', language)} {index + 1}</span>
@@ -483,8 +1121,9 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
                                 <p className="font-semibold text-center">{getTranslation('viewpoint', language)} {index + 1} {getTranslation('generationFailed', language)}</p>
                                 <p className="text-xs mt-1 text-center">{scene.error.substring(0, 50)}...</p>
                                 <button 
-                                    onClick={generateScenes}
-                                    className="mt-2 px-3 py-1 bg-indigo-500 text-white text-xs rounded hover:bg-indigo-600"
+                                    onClick={() => regenerateScene(point)}
+                                    disabled={isGenerating}
+                                    className="mt-2 px-3 py-1 bg-indigo-500 text-white text-xs rounded hover:bg-indigo-600 disabled:opacity-50"
                                 >
                                     {getTranslation('retry', language)}
                                 </button>
@@ -496,20 +1135,37 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
                         return (
                             <div 
                                 key={index} 
-                                className="bg-white rounded-lg overflow-hidden shadow-sm border border-slate-200 cursor-pointer hover:shadow-lg transition-shadow relative group"
-                                onClick={() => setSelectedSceneIndex(index)}
+                                className={`bg-white rounded-lg overflow-hidden shadow-sm border cursor-pointer hover:shadow-lg transition-shadow relative group ${point.id === selectedPointId ? 'border-indigo-500 ring-2 ring-indigo-500' : 'border-slate-200'}`}
+                                onClick={() => setSelectedSceneIndex(scenes.indexOf(scene))}
                             >
                                 <img 
                                     src={scene.url} 
                                     alt={`視角 ${index + 1} - ${scene.style}`} 
                                     className="w-full h-full object-cover aspect-square"
                                 />
+                                {scene.roomType && (
+                                    <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/60 text-white text-xs font-semibold rounded">
+                                        {index + 1}. {getTranslation(ROOM_TYPE_DETAILS[scene.roomType].labelKey, language)}
+                                    </span>
+                                )}
                                 <div className="absolute inset-0 bg-black/20 group-hover:bg-black/40 transition-colors flex items-center justify-center opacity-0 group-hover:opacity-100">
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-white" viewBox="0 0 20 20" fill="currentColor">
                                         <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
                                         <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" />
                                     </svg>
                                 </div>
+                                {scene.isStale && (
+                                    <div className="absolute inset-x-0 bottom-0 bg-amber-500/90 text-white text-xs font-semibold px-2 py-1.5 flex items-center justify-between gap-2">
+                                        <span>{getTranslation('sceneOutdated', language)}</span>
+                                        <button
+                                            onClick={e => { e.stopPropagation(); regenerateScene(point); }}
+                                            disabled={isBusy}
+                                            className="px-2 py-0.5 bg-white text-amber-700 rounded hover:bg-amber-50 disabled:opacity-50"
+                                        >
+                                            {getTranslation('regenerateScene', language)}
+                                        </button>
+                                    </div>
+                                )}
                             </div>
                         );
                     }
@@ -530,6 +1186,15 @@ const Step3SceneGeneration: React.FC<Step3SceneGenerationProps> = ({
                     language={language}
                 />
             )}
+
+            <StyleLibraryModal
+                isOpen={isStyleLibraryOpen}
+                onClose={() => setIsStyleLibraryOpen(false)}
+                currentStyle={style}
+                activePresetId={stylePreset?.id ?? null}
+                onApply={onStylePresetChange}
+                language={language}
+            />
         </div>
     );
 };
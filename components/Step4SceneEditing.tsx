@@ -4,29 +4,52 @@
  */
 import React, { useState, useRef, ChangeEvent } from 'react';
 import { GeneratedScene } from './Step3SceneGeneration';
-import { editInteriorScene, imageSrcToBase64 } from '../services/geminiService';
+import { editInteriorScene, editInteriorSceneRegions, imageSrcToBase64 } from '../services/geminiService';
 import { Language, getTranslation } from '../lib/i18n';
+import type { LightingPreset } from '../lib/lighting';
+import type { MaskRegionEdit, RegionEditMode } from '../lib/maskRegions';
 import JSZip from 'jszip';
 import DrawingCanvas, { DrawingCanvasRef } from './DrawingCanvas';
+import LightingControls from './LightingControls';
+import ComparisonModal from './ComparisonModal';
 
 interface EditableSceneCardProps {
     scene: GeneratedScene;
-    onEdit: (viewIndex: number, prompt: string, mode: 'day' | 'night', temperature: number, maskBase64?: string, objectImageDataUrl?: string | null) => void;
+    onEdit: (viewIndex: number, prompt: string, lighting: LightingPreset, maskBase64?: string, objectImageDataUrl?: string | null) => void;
+    onEditRegions: (viewIndex: number, regions: MaskRegionEdit[], mode: RegionEditMode, lighting: LightingPreset) => void;
     onRestore: (viewIndex: number) => void;
     language: Language;
 }
 
-const EditableSceneCard: React.FC<EditableSceneCardProps> = ({ scene, onEdit, onRestore, language }) => {
+const EditableSceneCard: React.FC<EditableSceneCardProps> = ({ scene, onEdit, onEditRegions, onRestore, language }) => {
     const [prompt, setPrompt] = useState('');
-    const [mode, setMode] = useState(scene.mode);
-    const [temperature, setTemperature] = useState(scene.temperature);
+    const [lighting, setLighting] = useState(scene.lighting);
     const [objectImage, setObjectImage] = useState<string | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
     const canvasRef = useRef<DrawingCanvasRef>(null);
     const objectInputRef = useRef<HTMLInputElement>(null);
 
     const handleApply = () => {
+        const regionEdits = canvasRef.current?.getRegionEdits();
+        const paintedRegions = regionEdits?.regions ?? [];
+        if (regionEdits && paintedRegions.length > 1) {
+            // Regions left without an instruction of their own use the main one.
+            const regions = paintedRegions.map(region => ({ ...region, prompt: region.prompt || prompt.trim() }));
+            if (regions.some(region => !region.prompt)) {
+                alert(getTranslation('enterRegionPromptAlert', language));
+                return;
+            }
+            if (objectImage) {
+                alert(getTranslation('regionsWithObjectAlert', language));
+                return;
+            }
+            onEditRegions(scene.viewIndex, regions, regionEdits.mode, lighting);
+            return;
+        }
+
+        // When only one region ends up painted, its own instruction takes precedence over the main one.
         const maskBase64 = canvasRef.current?.getMaskBase64();
-        onEdit(scene.viewIndex, prompt, mode, temperature, maskBase64, objectImage);
+        onEdit(scene.viewIndex, paintedRegions[0]?.prompt || prompt, lighting, maskBase64, objectImage);
     };
 
     const handleClearSelection = () => {
@@ -48,11 +71,11 @@ const EditableSceneCard: React.FC<EditableSceneCardProps> = ({ scene, onEdit, on
 
     return (
         <div className="bg-white rounded-lg shadow-md border border-slate-200 flex flex-col">
-            <div className="relative aspect-square">
+            <div className="relative p-2">
                 <DrawingCanvas
                     ref={canvasRef}
                     imageUrl={scene.url}
-                    className="rounded-t-lg"
+                    language={language}
                 />
                 {scene.isLoading && (
                     <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center text-white rounded-t-lg">
@@ -105,36 +128,12 @@ const EditableSceneCard: React.FC<EditableSceneCardProps> = ({ scene, onEdit, on
                     </button>
                 )}
                 
-                <div className="flex items-center gap-2">
-                    <button
-                        onClick={() => setMode('day')}
-                        className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors flex-1 ${mode === 'day' ? 'bg-blue-500 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
-                        disabled={scene.isLoading}
-                    >
-                        {getTranslation('day', language)}
-                    </button>
-                    <button
-                        onClick={() => setMode('night')}
-                         className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors flex-1 ${mode === 'night' ? 'bg-blue-500 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
-                         disabled={scene.isLoading}
-                    >
-                        {getTranslation('night', language)}
-                    </button>
-                </div>
-                
-                <div className="flex items-center gap-2">
-                    <input
-                        type="range"
-                        min="2700"
-                        max="7500"
-                        step="100"
-                        value={temperature}
-                        onChange={(e) => setTemperature(parseInt(e.target.value, 10))}
-                        className="w-full"
-                        disabled={scene.isLoading}
-                    />
-                    <span className="text-sm font-semibold text-slate-700 w-16 text-center">{temperature}K</span>
-                </div>
+                <LightingControls
+                    lighting={lighting}
+                    onChange={setLighting}
+                    disabled={scene.isLoading}
+                    language={language}
+                />
 
                 <div className="pt-2 space-y-2">
                     <div className="grid grid-cols-2 gap-2">
@@ -153,15 +152,32 @@ const EditableSceneCard: React.FC<EditableSceneCardProps> = ({ scene, onEdit, on
                             {getTranslation('restoreOriginal', language)}
                         </button>
                     </div>
-                    <button
-                        onClick={handleClearSelection}
-                        disabled={scene.isLoading}
-                        className="w-full px-4 py-2 bg-yellow-500 text-white font-semibold rounded-lg hover:bg-yellow-600 transition-colors disabled:opacity-50"
-                    >
-                        {getTranslation('clearMask', language)}
-                    </button>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={handleClearSelection}
+                            disabled={scene.isLoading}
+                            className="px-4 py-2 bg-yellow-500 text-white font-semibold rounded-lg hover:bg-yellow-600 transition-colors disabled:opacity-50"
+                        >
+                            {getTranslation('clearMask', language)}
+                        </button>
+                        <button
+                            onClick={() => setIsComparing(true)}
+                            disabled={!isRestorable || scene.isLoading}
+                            className="px-4 py-2 bg-slate-200 text-slate-800 font-semibold rounded-lg hover:bg-slate-300 transition-colors disabled:opacity-50"
+                        >
+                            {getTranslation('compareEdits', language)}
+                        </button>
+                    </div>
                 </div>
             </div>
+
+            <ComparisonModal
+                isOpen={isComparing}
+                onClose={() => setIsComparing(false)}
+                before={{ url: scene.originalUrl, label: getTranslation('originalSceneLabel', language) }}
+                after={{ url: scene.url, label: getTranslation('editedSceneLabel', language) }}
+                language={language}
+            />
         </div>
     );
 };
@@ -174,7 +190,22 @@ interface Step4SceneEditingProps {
 
 const Step4SceneEditing: React.FC<Step4SceneEditingProps> = ({ scenes, onScenesChange, language }) => {
 
-    const handleEdit = async (viewIndex: number, prompt: string, mode: 'day' | 'night', temperature: number, maskBase64?: string, objectImageDataUrl?: string | null) => {
+    const showEditedScene = (viewIndex: number, url: string, lighting: LightingPreset, isLoading: boolean) => {
+        onScenesChange(prev => prev.map(s => {
+            if (s.viewIndex === viewIndex) {
+                const newScene = { ...s, url, lighting, isLoading };
+                // If this is the first edit, set the originalUrl so we can restore to the Step 3 version.
+                // The originalUrl should only be set once from the initial generation.
+                if (s.url === s.originalUrl) {
+                    newScene.originalUrl = s.url;
+                }
+                return newScene;
+            }
+            return s;
+        }));
+    };
+
+    const handleEdit = async (viewIndex: number, prompt: string, lighting: LightingPreset, maskBase64?: string, objectImageDataUrl?: string | null) => {
         const sceneIndex = scenes.findIndex(s => s.viewIndex === viewIndex);
         if (sceneIndex === -1) return;
 
@@ -184,20 +215,9 @@ const Step4SceneEditing: React.FC<Step4SceneEditingProps> = ({ scenes, onScenesC
             const baseImageSrc = scenes[sceneIndex].url;
             const objectImageBase64 = objectImageDataUrl ? await imageSrcToBase64(objectImageDataUrl) : undefined;
             
-            const newUrl = await editInteriorScene(baseImageSrc, prompt, mode, temperature, maskBase64, objectImageBase64);
+            const newUrl = await editInteriorScene(baseImageSrc, prompt, lighting, maskBase64, objectImageBase64);
 
-            onScenesChange(prev => prev.map(s => {
-                if (s.viewIndex === viewIndex) {
-                    const newScene = { ...s, url: newUrl, mode, temperature, isLoading: false };
-                    // If this is the first edit, set the originalUrl so we can restore to the Step 3 version.
-                    // The originalUrl should only be set once from the initial generation.
-                    if (s.url === s.originalUrl) {
-                        newScene.originalUrl = s.url;
-                    }
-                    return newScene;
-                }
-                return s;
-            }));
+            showEditedScene(viewIndex, newUrl, lighting, false);
         } catch (error) {
             console.error(`Error editing scene ${viewIndex}:`, error);
             alert(`Failed to edit scene. ${error instanceof Error ? error.message : ''}`);
@@ -205,6 +225,23 @@ const Step4SceneEditing: React.FC<Step4SceneEditingProps> = ({ scenes, onScenesC
         }
     };
     
+    const handleEditRegions = async (viewIndex: number, regions: MaskRegionEdit[], mode: RegionEditMode, lighting: LightingPreset) => {
+        const scene = scenes.find(s => s.viewIndex === viewIndex);
+        if (!scene) return;
+
+        onScenesChange(prev => prev.map(s => s.viewIndex === viewIndex ? { ...s, isLoading: true } : s));
+
+        try {
+            // In sequential mode each region's result is shown as soon as it is ready.
+            const results = await editInteriorSceneRegions(scene.url, regions, lighting, mode, url => showEditedScene(viewIndex, url, lighting, true));
+            showEditedScene(viewIndex, results[results.length - 1], lighting, false);
+        } catch (error) {
+            console.error(`Error editing regions of scene ${viewIndex}:`, error);
+            alert(`Failed to edit scene. ${error instanceof Error ? error.message : ''}`);
+            onScenesChange(prev => prev.map(s => s.viewIndex === viewIndex ? { ...s, isLoading: false } : s));
+        }
+    };
+
     const handleRestore = (viewIndex: number) => {
         onScenesChange(prev => prev.map(s => {
             if (s.viewIndex === viewIndex) {
@@ -279,6 +316,7 @@ const Step4SceneEditing: React.FC<Step4SceneEditingProps> = ({ scenes, onScenesC
                         key={scene.viewIndex}
                         scene={scene}
                         onEdit={handleEdit}
+                        onEditRegions={handleEditRegions}
                         onRestore={handleRestore}
                         language={language}
                     />
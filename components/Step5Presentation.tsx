@@ -7,21 +7,30 @@ import { generatePresentationText, PresentationText } from '../services/geminiSe
 import { generateSlides, ColorTheme, themes } from '../lib/presentationUtils';
 import { Language, getTranslation } from '../lib/i18n';
 import type { GeneratedScene } from './Step3SceneGeneration';
+import type { LevelPlan } from '../lib/levels';
 import EditSlideModal, { SlideData } from './EditSlideModal';
 import JSZip from 'jszip';
 import AnimatedSlideshow from './AnimatedSlideshow';
 
 interface Step5PresentationProps {
-    finalPlanImage: string;
+    levelPlans: LevelPlan[];
     generatedScenes: GeneratedScene[];
     style: string;
     language: Language;
+    presentationText: PresentationText | null;
+    onPresentationTextChange: (text: PresentationText) => void;
 }
 
-const Step5Presentation: React.FC<Step5PresentationProps> = ({ finalPlanImage, generatedScenes, style, language }) => {
-    const [presentationText, setPresentationText] = useState<PresentationText | null>(null);
+const Step5Presentation: React.FC<Step5PresentationProps> = ({
+    levelPlans,
+    generatedScenes,
+    style,
+    language,
+    presentationText,
+    onPresentationTextChange: setPresentationText
+}) => {
     const [slideImages, setSlideImages] = useState<string[]>([]);
-    const [isLoadingText, setIsLoadingText] = useState(true);
+    const [isLoadingText, setIsLoadingText] = useState(!presentationText);
     const [isGeneratingSlides, setIsGeneratingSlides] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
@@ -37,7 +46,8 @@ const Step5Presentation: React.FC<Step5PresentationProps> = ({ finalPlanImage, g
     // which allows for proper type narrowing in the switch statement in handleSave.
     const allSlideData: SlideData[] = useMemo(() => (presentationText ? [
         { type: 'title' as const, content: { title: style, description: presentationText.presentationTitle } },
-        { type: 'concept' as const, content: { title: presentationText.conceptTitle, description: presentationText.mainConcepts.join('\n') } },
+        // One concept slide per floor; they all share the same concept text.
+        ...levelPlans.map(() => ({ type: 'concept' as const, content: { title: presentationText.conceptTitle, description: presentationText.mainConcepts.join('\n') } })),
         ...completedScenes.map((scene, i) => ({
             type: 'viewpoint' as const,
             index: i,
@@ -47,7 +57,7 @@ const Step5Presentation: React.FC<Step5PresentationProps> = ({ finalPlanImage, g
             }
         })),
         { type: 'conclusion' as const, content: { title: presentationText.conclusionTitle, description: presentationText.conclusion } }
-    ] : []), [presentationText, style, completedScenes]);
+    ] : []), [presentationText, style, completedScenes, levelPlans]);
 
 
     // Generate or regenerate all slides
@@ -55,7 +65,7 @@ const Step5Presentation: React.FC<Step5PresentationProps> = ({ finalPlanImage, g
         if (!presentationText) return;
         setIsGeneratingSlides(true);
         try {
-            const images = await generateSlides(presentationText, completedScenes, finalPlanImage, style, language, selectedTheme);
+            const images = await generateSlides(presentationText, completedScenes, levelPlans, style, language, selectedTheme);
             setSlideImages(images);
         } catch (err) {
             console.error("Error generating slides:", err);
@@ -63,16 +73,21 @@ const Step5Presentation: React.FC<Step5PresentationProps> = ({ finalPlanImage, g
         } finally {
             setIsGeneratingSlides(false);
         }
-    }, [presentationText, completedScenes, finalPlanImage, style, language, selectedTheme]);
+    }, [presentationText, completedScenes, levelPlans, style, language, selectedTheme]);
 
 
-    // Initial fetch of presentation text
+    // Initial fetch of presentation text. Text that was already generated (or restored
+    // from a saved project) is kept, so edits survive navigating between steps.
     useEffect(() => {
+        if (presentationText) {
+            setIsLoadingText(false);
+            return;
+        }
         const fetchPresentation = async () => {
             setIsLoadingText(true);
             setError(null);
             try {
-                const text = await generatePresentationText(finalPlanImage, completedScenes, style, language);
+                const text = await generatePresentationText(levelPlans, completedScenes, style, language);
                 setPresentationText(text);
             } catch (err) {
                 console.error(err);
@@ -82,7 +97,7 @@ const Step5Presentation: React.FC<Step5PresentationProps> = ({ finalPlanImage, g
             }
         };
         fetchPresentation();
-    }, [finalPlanImage, completedScenes, style, language]);
+    }, [levelPlans, completedScenes, style, language]);
 
     // Regenerate all slides when text or theme changes
     useEffect(() => {
@@ -106,7 +121,7 @@ const Step5Presentation: React.FC<Step5PresentationProps> = ({ finalPlanImage, g
         // FIX: Switched from using `updatedData.type` to `originalSlideData.type` to enable
         // correct type narrowing. This ensures that properties specific to a slide type (like .index) are accessible without type errors.
         const originalSlideData = allSlideData[slideIndex];
-        let newText = { ...presentationText };
+        let newText = { ...presentationText, viewpointDetails: [...presentationText.viewpointDetails] };
         let needsRegen = false;
 
         switch(originalSlideData.type) {
@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useEffect, useRef, ChangeEvent } from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import {
+    MATERIAL_LABEL_KEYS,
+    MATERIAL_SLOTS,
+    StylePreset,
+    createStylePreset,
+    deleteStylePreset,
+    listStylePresets,
+    readMoodBoardImage,
+    saveStylePreset,
+} from '../lib/styleLibrary';
+
+interface StyleLibraryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // The style typed in Step 3, used to name a new preset.
+    currentStyle: string;
+    activePresetId: string | null;
+    onApply: (preset: StylePreset) => void;
+    language: Language;
+}
+
+const DEFAULT_SWATCH = '#d9cbb5';
+
+const StyleLibraryModal: React.FC<StyleLibraryModalProps> = ({ isOpen, onClose, currentStyle, activePresetId, onApply, language }) => {
+    const [presets, setPresets] = useState<StylePreset[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    // The preset being created or edited; null while browsing the library.
+    const [draft, setDraft] = useState<StylePreset | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const moodBoardInputRef = useRef<HTMLInputElement>(null);
+
+    const refreshPresets = async () => {
+        setIsLoading(true);
+        try {
+            setPresets(await listStylePresets());
+        } catch (error) {
+            console.error('Failed to load the style library:', error);
+            alert(getTranslation('styleLibraryFailed', language));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(null);
+            refreshPresets();
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const updateDraft = (changes: Partial<StylePreset>) => setDraft(prev => prev ? { ...prev, ...changes } : prev);
+
+    const handleMoodBoardUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        try {
+            const images = await Promise.all(files.map(readMoodBoardImage));
+            setDraft(prev => prev ? { ...prev, moodBoard: [...prev.moodBoard, ...images] } : prev);
+        } catch (error) {
+            console.error('Failed to read mood-board image:', error);
+            alert(getTranslation('moodBoardUploadFailed', language));
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft || !draft.name.trim()) return;
+        setIsSaving(true);
+        try {
+            const saved = await saveStylePreset({ ...draft, name: draft.name.trim() });
+            // Keep the project in step with edits to the preset it uses.
+            if (saved.id === activePresetId) onApply(saved);
+            setDraft(null);
+            await refreshPresets();
+        } catch (error) {
+            console.error('Failed to save style preset:', error);
+            alert(getTranslation('styleLibraryFailed', language));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (preset: StylePreset) => {
+        if (!confirm(getTranslation('deleteStylePresetConfirm', language))) return;
+        try {
+            await deleteStylePreset(preset.id);
+            await refreshPresets();
+        } catch (error) {
+            console.error('Failed to delete style preset:', error);
+            alert(getTranslation('styleLibraryFailed', language));
+        }
+    };
+
+    const inputClass = "mt-1 block w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm bg-white text-slate-900";
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+        >
+            <div
+                className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6"
+                onClick={e => e.stopPropagation()}
+            >
+                <h2 className="text-xl font-bold mb-4 text-slate-800">{getTranslation('styleLibrary', language)}</h2>
+
+                {draft ? (
+                    <div className="space-y-4">
+                        <div>
+                            <label htmlFor="preset-name" className="block text-sm font-medium text-slate-700">{getTranslation('stylePresetName', language)}</label>
+                            <input id="preset-name" type="text" value={draft.name} onChange={e => updateDraft({ name: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="preset-description" className="block text-sm font-medium text-slate-700">{getTranslation('description', language)}</label>
+                            <textarea id="preset-description" rows={3} value={draft.description} onChange={e => updateDraft({ description: e.target.value })} className={inputClass} />
+                        </div>
+
+                        <div>
+                            <span className="block text-sm font-medium text-slate-700">{getTranslation('colorPalette', language)}</span>
+                            <div className="mt-1 flex flex-wrap items-center gap-2">
+                                {draft.palette.map((color, index) => (
+                                    <div key={index} className="flex items-center gap-1 border border-slate-200 rounded-md p-1">
+                                        <input
+                                            type="color"
+                                            value={color}
+                                            onChange={e => updateDraft({ palette: draft.palette.map((c, i) => i === index ? e.target.value : c) })}
+                                            className="w-8 h-8 cursor-pointer"
+                                        />
+                                        <button
+                                            onClick={() => updateDraft({ palette: draft.palette.filter((_, i) => i !== index) })}
+                                            className="px-1 text-slate-500 hover:text-red-600"
+                                            aria-label={getTranslation('removeColor', language)}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => updateDraft({ palette: [...draft.palette, DEFAULT_SWATCH] })}
+                                    className="px-3 py-1.5 text-sm bg-slate-200 text-slate-700 font-semibold rounded-md hover:bg-slate-300 transition-colors"
+                                >
+                                    {getTranslation('addColor', language)}
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {MATERIAL_SLOTS.map(slot => (
+                                <div key={slot}>
+                                    <label htmlFor={`preset-material-${slot}`} className="block text-sm font-medium text-slate-700">{getTranslation(MATERIAL_LABEL_KEYS[slot], language)}</label>
+                                    <input
+                                        id={`preset-material-${slot}`}
+                                        type="text"
+                                        value={draft.materials[slot]}
+                                        onChange={e => updateDraft({ materials: { ...draft.materials, [slot]: e.target.value } })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+
+                        <div>
+                            <span className="block text-sm font-medium text-slate-700">{getTranslation('moodBoard', language)}</span>
+                            <input type="file" accept="image/*" multiple ref={moodBoardInputRef} onChange={handleMoodBoardUpload} className="hidden" />
+                            <div className="mt-1 flex flex-wrap gap-2">
+                                {draft.moodBoard.map((image, index) => (
+                                    <div key={index} className="relative">
+                                        <img src={image} alt={`${getTranslation('moodBoard', language)} ${index + 1}`} className="w-20 h-20 rounded object-cover border border-slate-200" />
+                                        <button
+                                            onClick={() => updateDraft({ moodBoard: draft.moodBoard.filter((_, i) => i !== index) })}
+                                            className="absolute -top-2 -right-2 w-5 h-5 bg-white border border-slate-300 rounded-full text-xs text-slate-600 hover:text-red-600"
+                                            aria-label={getTranslation('removeImage', language)}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => moodBoardInputRef.current?.click()}
+                                    className="w-20 h-20 flex items-center justify-center text-sm text-indigo-600 border-2 border-dashed border-indigo-300 rounded hover:bg-indigo-50 transition-colors"
+                                >
+                                    {getTranslation('addImages', language)}
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                onClick={() => setDraft(null)}
+                                className="px-4 py-2 bg-slate-200 text-slate-800 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                            >
+                                {getTranslation('cancel', language)}
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={isSaving || !draft.name.trim()}
+                                className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                            >
+                                {getTranslation('saveChanges', language)}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {isLoading ? (
+                            <p className="text-center text-slate-500 p-4">{getTranslation('loadingStyleLibrary', language)}</p>
+                        ) : presets.length === 0 ? (
+                            <p className="text-center text-slate-500 p-4">{getTranslation('styleLibraryEmpty', language)}</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {presets.map(preset => (
+                                    <li
+                                        key={preset.id}
+                                        className={`flex items-center gap-3 p-3 rounded-lg border ${preset.id === activePresetId ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200'}`}
+                                    >
+                                        {preset.moodBoard[0] ? (
+                                            <img src={preset.moodBoard[0]} alt="" className="w-14 h-14 rounded object-cover shrink-0" />
+                                        ) : (
+                                            <div className="w-14 h-14 rounded bg-slate-100 shrink-0" />
+                                        )}
+                                        <div className="flex-grow min-w-0">
+                                            <p className="font-semibold text-slate-900 truncate">{preset.name}</p>
+                                            {preset.description && <p className="text-xs text-slate-500 truncate">{preset.description}</p>}
+                                            <div className="flex gap-1 mt-1">
+                                                {preset.palette.map((color, index) => (
+                                                    <span key={index} className="w-4 h-4 rounded-sm border border-slate-200" style={{ backgroundColor: color }} />
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-1 shrink-0">
+                                            <button
+                                                onClick={() => { onApply(preset); onClose(); }}
+                                                className="px-3 py-1.5 text-sm bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition-colors"
+                                            >
+                                                {getTranslation('applyStylePreset', language)}
+                                            </button>
+                                            <button
+                                                onClick={() => setDraft(preset)}
+                                                className="px-3 py-1.5 text-sm bg-slate-200 text-slate-700 font-semibold rounded-md hover:bg-slate-300 transition-colors"
+                                            >
+                                                {getTranslation('editStylePreset', language)}
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(preset)}
+                                                className="px-3 py-1.5 text-sm bg-slate-200 text-slate-700 font-semibold rounded-md hover:bg-red-100 hover:text-red-700 transition-colors"
+                                            >
+                                                {getTranslation('deleteStylePreset', language)}
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button
+                                onClick={onClose}
+                                className="px-4 py-2 bg-slate-200 text-slate-800 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                            >
+                                {getTranslation('closeStyleLibrary', language)}
+                            </button>
+                            <button
+                                onClick={() => setDraft(createStylePreset(currentStyle.trim()))}
+                                className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors"
+                            >
+                                {getTranslation('newStylePreset', language)}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default StyleLibraryModal;
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import {
+    DEFAULT_VECTOR_RESOLUTION,
+    VECTOR_RESOLUTION_OPTIONS,
+    VectorDrawing,
+    buildFilteredSvg,
+    isAnnotationLayer,
+    loadVectorDrawing,
+    rasterizeVectorDrawing
+} from '../lib/vectorImport';
+
+interface VectorLayerPickerProps {
+    file: File;
+    language: Language;
+    onImageReady: (imageUrl: string) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_SIZE = 1024;
+
+const VectorLayerPicker: React.FC<VectorLayerPickerProps> = ({ file, language, onImageReady, onCancel }) => {
+    const [drawing, setDrawing] = useState<VectorDrawing | null>(null);
+    const [hiddenLayers, setHiddenLayers] = useState<Set<string>>(new Set());
+    const [resolution, setResolution] = useState<number>(DEFAULT_VECTOR_RESOLUTION);
+    const [isRendering, setIsRendering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        setDrawing(null);
+        setError(null);
+        loadVectorDrawing(file)
+            .then(loaded => {
+                if (isCancelled) return;
+                setDrawing(loaded);
+                setHiddenLayers(new Set(loaded.layers.map(layer => layer.name).filter(isAnnotationLayer)));
+            })
+            .catch(err => {
+                if (isCancelled) return;
+                console.error('Failed to read vector drawing:', err);
+                setError(`${getTranslation('vectorLoadFailed', language)} ${err instanceof Error ? err.message : ''}`);
+            });
+        return () => { isCancelled = true; };
+    }, [file]);
+
+    const previewUrl = useMemo(() => {
+        if (!drawing) return null;
+        return URL.createObjectURL(new Blob([buildFilteredSvg(drawing, hiddenLayers, PREVIEW_SIZE)], { type: 'image/svg+xml' }));
+    }, [drawing, hiddenLayers]);
+
+    useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+    const toggleLayer = (name: string) => {
+        setHiddenLayers(prev => {
+            const next = new Set(prev);
+            if (next.has(name)) next.delete(name);
+            else next.add(name);
+            return next;
+        });
+    };
+
+    const handleUseDrawing = async () => {
+        if (!drawing) return;
+        setIsRendering(true);
+        setError(null);
+        try {
+            onImageReady(await rasterizeVectorDrawing(drawing, hiddenLayers, resolution));
+        } catch (err) {
+            console.error('Failed to rasterise vector drawing:', err);
+            setError(`${getTranslation('vectorLoadFailed', language)} ${err instanceof Error ? err.message : ''}`);
+        } finally {
+            setIsRendering(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-3xl bg-white border border-slate-200 rounded-lg p-4 space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-3">
+                <div>
+                    <h3 className="font-bold text-slate-900">{getTranslation('vectorSelectLayers', language)}</h3>
+                    <p className="text-sm text-slate-500 truncate">{file.name}</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                    {getTranslation('vectorResolution', language)}
+                    <select
+                        value={resolution}
+                        onChange={e => setResolution(Number(e.target.value))}
+                        className="border border-slate-300 rounded-md px-2 py-1 bg-white"
+                        disabled={isRendering}
+                    >
+                        {VECTOR_RESOLUTION_OPTIONS.map(option => (
+                            <option key={option} value={option}>{option} px</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!drawing && !error && (
+                <div className="flex items-center justify-center gap-3 p-8 text-slate-500">
+                    <div className="loader border-4 border-indigo-200 border-t-indigo-600 rounded-full w-8 h-8 animate-spin" />
+                    <span>{getTranslation('vectorLoading', language)}</span>
+                </div>
+            )}
+
+            {drawing && (
+                <div className="flex flex-col md:flex-row gap-4">
+                    <ul className="md:w-1/3 max-h-[50vh] overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-md">
+                        {drawing.layers.map(layer => (
+                            <li key={layer.name}>
+                                <label className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+                                    <input
+                                        type="checkbox"
+                                        checked={!hiddenLayers.has(layer.name)}
+                                        onChange={() => toggleLayer(layer.name)}
+                                        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    <span className="flex-grow truncate text-slate-800">{layer.name}</span>
+                                    <span className="text-xs text-slate-400">{layer.elementCount}</span>
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="md:w-2/3 bg-white border border-slate-200 rounded-md p-2 flex items-center justify-center">
+                        {previewUrl && <img src={previewUrl} alt={file.name} className="max-w-full max-h-[50vh] object-contain" />}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors"
+                >
+                    {getTranslation('cancel', language)}
+                </button>
+                <button
+                    onClick={handleUseDrawing}
+                    disabled={!drawing || isRendering}
+                    className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isRendering ? getTranslation('vectorRendering', language) : getTranslation('vectorUseDrawing', language)}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default VectorLayerPicker;
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import { RenderingVersion, VERSION_KIND_LABEL_KEYS, layoutVersionTree } from '../lib/renderingVersions';
+
+interface VersionTreeProps {
+    versions: RenderingVersion[];
+    // The version shown for editing; new edits branch from it.
+    currentVersionId: string | null;
+    // The version passed on to Step 3.
+    finalVersionId: string | null;
+    onSelect: (version: RenderingVersion) => void;
+    disabled: boolean;
+    language: Language;
+}
+
+const NODE_WIDTH = 88;
+const NODE_HEIGHT = 66;
+const COLUMN_GAP = 32;
+const ROW_GAP = 16;
+
+const VersionTree: React.FC<VersionTreeProps> = ({ versions, currentVersionId, finalVersionId, onSelect, disabled, language }) => {
+    if (versions.length === 0) return null;
+
+    const positions = layoutVersionTree(versions);
+    const placed = versions.flatMap(version => {
+        const position = positions.get(version.id);
+        return position ? [{ version, left: position.column * (NODE_WIDTH + COLUMN_GAP), top: position.row * (NODE_HEIGHT + ROW_GAP) }] : [];
+    });
+    const placedById = new Map<string, { left: number; top: number }>(placed.map(({ version, left, top }) => [version.id, { left, top }]));
+    const width = Math.max(...placed.map(node => node.left)) + NODE_WIDTH;
+    const height = Math.max(...placed.map(node => node.top)) + NODE_HEIGHT;
+    const current = versions.find(version => version.id === currentVersionId);
+
+    return (
+        <div className="mt-8 p-4 bg-white border border-slate-200 rounded-lg">
+            <h3 className="font-bold text-lg text-slate-900">{getTranslation('versionHistory', language)}</h3>
+            <p className="text-sm text-slate-500 mb-3">{getTranslation('versionHistoryHint', language)}</p>
+
+            <div className="overflow-x-auto pb-2">
+                <div className="relative" style={{ width, height }}>
+                    <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+                        {placed.map(({ version, left, top }) => {
+                            const parent = version.parentId ? placedById.get(version.parentId) : undefined;
+                            if (!parent) return null;
+                            const startX = parent.left + NODE_WIDTH;
+                            const startY = parent.top + NODE_HEIGHT / 2;
+                            const middleX = startX + COLUMN_GAP / 2;
+                            const endY = top + NODE_HEIGHT / 2;
+                            return (
+                                <path
+                                    key={version.id}
+                                    d={`M ${startX} ${startY} H ${middleX} V ${endY} H ${left}`}
+                                    fill="none"
+                                    stroke="#94a3b8"
+                                    strokeWidth={2}
+                                />
+                            );
+                        })}
+                    </svg>
+                    {placed.map(({ version, left, top }) => {
+                        const isCurrent = version.id === currentVersionId;
+                        const isFinal = version.id === finalVersionId;
+                        return (
+                            <button
+                                key={version.id}
+                                onClick={() => onSelect(version)}
+                                disabled={disabled}
+                                title={[getTranslation(VERSION_KIND_LABEL_KEYS[version.kind], language), version.prompt].filter(Boolean).join(': ')}
+                                className={`absolute rounded-md overflow-hidden bg-slate-100 border-2 transition-colors disabled:cursor-not-allowed ${isCurrent ? 'border-indigo-600 ring-2 ring-indigo-300' : 'border-slate-200 hover:border-indigo-400'}`}
+                                style={{ left, top, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                            >
+                                <img src={version.url} alt="" className="w-full h-full object-cover" />
+                                {isFinal && (
+                                    <span className="absolute top-0.5 left-0.5 px-1.5 py-0.5 text-[10px] font-bold bg-green-600 text-white rounded">
+                                        {getTranslation('finalVersion', language)}
+                                    </span>
+                                )}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {current && (
+                <div className="mt-3 flex gap-3 items-start text-sm text-slate-700">
+                    {current.mask && (
+                        <img src={current.mask} alt={getTranslation('versionMask', language)} className="w-16 h-16 object-contain bg-black rounded border border-slate-200 shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                        <p className="font-semibold text-slate-900">
+                            {getTranslation(VERSION_KIND_LABEL_KEYS[current.kind], language)}
+                            <span className="ml-2 font-normal text-slate-500">{new Date(current.timestamp).toLocaleString()}</span>
+                        </p>
+                        {current.prompt && <p className="break-words">{current.prompt}</p>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VersionTree;
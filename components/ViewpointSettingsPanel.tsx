@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { Language, getTranslation } from '../lib/i18n';
+import type { LightingPreset } from '../lib/lighting';
+import { ROOM_TYPES, ROOM_TYPE_DETAILS, RoomType } from '../lib/rooms';
+import { DEFAULT_FIELD_OF_VIEW, MAX_FIELD_OF_VIEW, MIN_FIELD_OF_VIEW } from '../lib/viewpoints';
+import LightingControls from './LightingControls';
+import type { ScenePoint } from './Step3SceneGeneration';
+
+interface ViewpointSettingsPanelProps {
+    // The selected viewpoint, or null to edit the defaults used by every viewpoint.
+    point: ScenePoint | null;
+    viewIndex: number;
+    style: string;
+    lighting: LightingPreset;
+    fieldOfView: number;
+    // The plan heading its north arrow points to, clockwise from the top of the plan.
+    northHeading: number;
+    onPointChange: (changes: Partial<ScenePoint>) => void;
+    onLightingChange: (lighting: LightingPreset) => void;
+    onFieldOfViewChange: (fov: number) => void;
+    onNorthHeadingChange: (heading: number) => void;
+    disabled: boolean;
+    language: Language;
+}
+
+const ViewpointSettingsPanel: React.FC<ViewpointSettingsPanelProps> = ({
+    point,
+    viewIndex,
+    style,
+    lighting,
+    fieldOfView,
+    northHeading,
+    onPointChange,
+    onLightingChange,
+    onFieldOfViewChange,
+    onNorthHeadingChange,
+    disabled,
+    language,
+}) => {
+    // A selected viewpoint shows its own value where it overrides the default, and the default otherwise.
+    const effectiveLighting = point?.lighting ?? lighting;
+    const isDirected = point?.heading !== undefined;
+    const effectiveFov = point ? point.fov ?? DEFAULT_FIELD_OF_VIEW : fieldOfView;
+    const hasOverrides = !!point && (point.style !== undefined || point.lighting !== undefined);
+
+    return (
+        <aside className="w-full lg:w-80 shrink-0 bg-white border border-slate-200 rounded-lg p-4 space-y-4 text-sm text-slate-700">
+            <div>
+                <h3 className="font-bold text-slate-900">
+                    {point ? `${getTranslation('viewpoint', language)} ${viewIndex}` : getTranslation('viewpointDefaults', language)}
+                </h3>
+                <p className="text-xs text-slate-500">
+                    {getTranslation(point ? 'viewpointOverridesHint' : 'viewpointDefaultsHint', language)}
+                </p>
+            </div>
+
+            {point && (
+                <label className="block space-y-1">
+                    <span className="font-semibold">{getTranslation('roomType', language)}</span>
+                    <select
+                        value={point.roomType ?? ''}
+                        onChange={e => onPointChange({ roomType: e.target.value ? e.target.value as RoomType : undefined })}
+                        disabled={disabled}
+                        className="w-full border border-slate-300 rounded-md px-2 py-1.5 bg-white disabled:opacity-50"
+                    >
+                        <option value="">{getTranslation('roomUnspecified', language)}</option>
+                        {ROOM_TYPES.map(type => (
+                            <option key={type} value={type}>{getTranslation(ROOM_TYPE_DETAILS[type].labelKey, language)}</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+
+            {point && (
+                <label className="block space-y-1">
+                    <span className="font-semibold">{getTranslation('viewpointStyle', language)}</span>
+                    <input
+                        type="text"
+                        value={point.style ?? ''}
+                        onChange={e => onPointChange({ style: e.target.value || undefined })}
+                        placeholder={style || getTranslation('styleInputPlaceholder', language)}
+                        disabled={disabled}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-md bg-white text-slate-900 disabled:opacity-50"
+                    />
+                </label>
+            )}
+
+            {(!point || isDirected) && (
+                <label className="block space-y-1">
+                    <span className="font-semibold">{getTranslation('fieldOfView', language)}</span>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="range"
+                            min={MIN_FIELD_OF_VIEW}
+                            max={MAX_FIELD_OF_VIEW}
+                            step={5}
+                            value={effectiveFov}
+                            onChange={e => point ? onPointChange({ fov: Number(e.target.value) }) : onFieldOfViewChange(Number(e.target.value))}
+                            disabled={disabled}
+                            className="w-full"
+                        />
+                        <span className="w-10 text-right tabular-nums">{effectiveFov}°</span>
+                    </div>
+                </label>
+            )}
+
+            {!point && (
+                <label className="block space-y-1">
+                    <span className="font-semibold">{getTranslation('northHeading', language)}</span>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="range"
+                            min={0}
+                            max={345}
+                            step={15}
+                            value={northHeading}
+                            onChange={e => onNorthHeadingChange(Number(e.target.value))}
+                            disabled={disabled}
+                            className="w-full"
+                        />
+                        <span className="w-10 text-right tabular-nums">{northHeading}°</span>
+                    </div>
+                </label>
+            )}
+
+            <div className="space-y-2">
+                <span className="font-semibold">{getTranslation('lighting', language)}</span>
+                <LightingControls
+                    lighting={effectiveLighting}
+                    onChange={value => point ? onPointChange({ lighting: value }) : onLightingChange(value)}
+                    disabled={disabled}
+                    language={language}
+                />
+            </div>
+
+            {point && (
+                <button
+                    onClick={() => onPointChange({ style: undefined, lighting: undefined })}
+                    disabled={disabled || !hasOverrides}
+                    className="w-full px-3 py-1.5 bg-slate-200 text-slate-700 font-semibold rounded-lg hover:bg-slate-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {getTranslation('useDefaultSettings', language)}
+                </button>
+            )}
+        </aside>
+    );
+};
+
+export default ViewpointSettingsPanel;
@@ -22,6 +22,14 @@ const translations = {
     previousStep: { en: 'Previous Step', zh: '上一步' },
     nextStep: { en: 'Next Step', zh: '下一步' },
     restart: { en: 'Start Over', zh: '重新開始' },
+    saveProject: { en: 'Save Project', zh: '儲存專案' },
+    savingProject: { en: 'Saving...', zh: '儲存中...' },
+    openProject: { en: 'Open Project', zh: '開啟專案' },
+    projectSaveFailed: { en: 'Failed to save the project. Please try again.', zh: '專案儲存失敗，請重試。' },
+    projectOpenFailed: { en: 'Failed to open the project.', zh: '無法開啟專案。' },
+    storageAlmostFull: { en: 'Browser storage is almost full, so autosave has been paused. Delete old sessions from the start screen or save the project to a file.', zh: '瀏覽器儲存空間即將用盡，已暫停自動儲存。請在開始畫面刪除舊的工作階段，或將專案儲存為檔案。' },
+    modelProvider: { en: 'AI Backend', zh: 'AI 後端' },
+    mockProviderActive: { en: 'Offline mock mode: images and text are placeholders.', zh: '離線模擬模式：圖片與文字皆為示意內容。' },
     
     // Stepper.tsx
     stepUpload: { en: 'Upload', zh: '上傳' },
@@ -34,15 +42,90 @@ const translations = {
     selectLanguage: { en: 'Select Language', zh: '選擇語言' },
     chinese: { en: 'Traditional Chinese', zh: '繁體中文' },
     english: { en: 'English', zh: '英文' },
+    resumeSession: { en: 'Resume previous session', zh: '繼續上次的工作' },
+    storageUsage: { en: 'Storage used', zh: '已使用空間' },
+    deleteSession: { en: 'Delete', zh: '刪除' },
+    resumeSessionFailed: { en: 'Failed to restore the saved session.', zh: '無法還原已儲存的工作階段。' },
+    projectsTitle: { en: 'Projects', zh: '專案' },
+    projectsDescription: { en: 'Open a saved project or start a new one. Projects are stored in this browser.', zh: '開啟已儲存的專案或建立新專案。專案會儲存在此瀏覽器中。' },
+    newProject: { en: 'New Project', zh: '新增專案' },
+    untitledProject: { en: 'Untitled project', zh: '未命名專案' },
+    lastModified: { en: 'Last modified', zh: '最後修改' },
+    renameProject: { en: 'Rename', zh: '重新命名' },
+    renameProjectPrompt: { en: 'Enter a new project name:', zh: '請輸入新的專案名稱：' },
+    duplicateProject: { en: 'Duplicate', zh: '複製' },
+    copySuffix: { en: '(copy)', zh: '（副本）' },
+    archiveProject: { en: 'Archive', zh: '封存' },
+    unarchiveProject: { en: 'Restore', zh: '取消封存' },
+    deleteProjectConfirm: { en: 'Delete this project permanently?', zh: '確定要永久刪除此專案嗎？' },
+    showArchivedProjects: { en: 'Archived', zh: '已封存' },
+    showActiveProjects: { en: 'Active projects', zh: '進行中的專案' },
+    noProjects: { en: 'No projects yet. Create one to get started.', zh: '尚無專案，請建立新專案開始。' },
+    noArchivedProjects: { en: 'No archived projects.', zh: '沒有已封存的專案。' },
+    projectActionFailed: { en: 'The project could not be updated.', zh: '無法更新專案。' },
 
     // Step1Upload.tsx
     step1Title: { en: 'Step 1: Upload Your Floor Plan', zh: '步驟 1：上傳您的平面圖' },
-    step1Description: { en: 'Upload a clear image of your floor plan. The AI will analyze the layout to begin the design process.', zh: '上傳清晰的平面圖照片。AI 將分析佈局以開始設計流程。' },
+    step1Description: { en: 'Upload a clear image, PDF, DXF or SVG of your floor plan. The AI will analyze the layout to begin the design process.', zh: '上傳清晰的平面圖照片、PDF、DXF 或 SVG。AI 將分析佈局以開始設計流程。' },
     uploadPlaceholder: { en: 'Your floor plan image will appear here', zh: '您的平面圖將會顯示在這裡' },
     uploadButton: { en: 'Select Floor Plan', zh: '選擇平面圖' },
     reuploadButton: { en: 'Select a Different Plan', zh: '選擇其他平面圖' },
+    pdfSelectPage: { en: 'Choose the page with the floor plan', zh: '選擇平面圖所在的頁面' },
+    pdfResolution: { en: 'Resolution', zh: '解析度' },
+    pdfPage: { en: 'Page', zh: '頁面' },
+    pdfLoading: { en: 'Reading PDF...', zh: '正在讀取 PDF...' },
+    pdfRendering: { en: 'Converting page...', zh: '正在轉換頁面...' },
+    pdfUsePage: { en: 'Use This Page', zh: '使用此頁' },
+    preprocessOpen: { en: 'Clean Up Plan', zh: '整理平面圖' },
+    preprocessTitle: { en: 'Crop, straighten and clean up the plan', zh: '裁切、校正並整理平面圖' },
+    preprocessGeometry: { en: 'Framing', zh: '取景' },
+    preprocessCrop: { en: 'Crop', zh: '裁切' },
+    preprocessPerspective: { en: 'Perspective', zh: '透視校正' },
+    preprocessCropHint: { en: 'Drag the corners to crop away the border.', zh: '拖曳角點以裁掉邊框。' },
+    preprocessPerspectiveHint: { en: 'Drag each handle onto a corner of the sheet; the plan will be straightened automatically.', zh: '將每個控制點拖曳到圖紙的角落，平面圖將自動校正。' },
+    preprocessRotation: { en: 'Rotation', zh: '旋轉' },
+    preprocessFineRotation: { en: 'Fine rotation', zh: '微調角度' },
+    preprocessTone: { en: 'Cleanup', zh: '清理' },
+    preprocessBrightness: { en: 'Brightness', zh: '亮度' },
+    preprocessContrast: { en: 'Contrast', zh: '對比' },
+    preprocessThreshold: { en: 'Black & white (threshold)', zh: '黑白（臨界值）' },
+    preprocessReset: { en: 'Reset adjustments', zh: '重設調整' },
+    preprocessApply: { en: 'Apply', zh: '套用' },
+    preprocessApplying: { en: 'Processing...', zh: '處理中...' },
+    preprocessFailed: { en: 'The plan could not be processed.', zh: '無法處理平面圖。' },
+    preprocessShowOriginal: { en: 'Show original', zh: '顯示原圖' },
+    preprocessShowCleaned: { en: 'Show cleaned plan', zh: '顯示整理後的平面圖' },
+    scaleOpen: { en: 'Set Scale', zh: '設定比例尺' },
+    scaleEdit: { en: 'Adjust Scale', zh: '調整比例尺' },
+    scaleTitle: { en: 'Calibrate the plan scale', zh: '校正平面圖比例尺' },
+    scaleInstructions: { en: 'Drag a line along a dimension you know, such as a wall or a dimension line, then enter its real length.', zh: '沿著已知長度的牆面或尺寸線拖曳一條線，然後輸入實際長度。' },
+    scaleLength: { en: 'Real length', zh: '實際長度' },
+    unitMetres: { en: 'metres', zh: '公尺' },
+    unitFeet: { en: 'feet', zh: '英尺' },
+    scaleSave: { en: 'Save Scale', zh: '儲存比例尺' },
+    scaleCurrent: { en: 'Plan scale', zh: '平面圖比例尺' },
+    scaleClear: { en: 'Remove', zh: '移除' },
+    vectorSelectLayers: { en: 'Choose the layers to include', zh: '選擇要保留的圖層' },
+    vectorResolution: { en: 'Longest side', zh: '最長邊' },
+    vectorLoading: { en: 'Reading drawing...', zh: '正在讀取圖面...' },
+    vectorRendering: { en: 'Rasterising drawing...', zh: '正在轉換圖面...' },
+    vectorUseDrawing: { en: 'Use This Drawing', zh: '使用此圖面' },
+    vectorLoadFailed: { en: 'The drawing could not be read.', zh: '無法讀取此圖面。' },
+    pdfLoadFailed: { en: 'The PDF could not be read. Please try another file.', zh: '無法讀取此 PDF，請嘗試其他檔案。' },
     analyzingIndicator: { en: 'Analyzing floor plan...', zh: '正在分析平面圖...' },
 
+    // LevelSwitcher.tsx
+    levels: { en: 'Floors', zh: '樓層' },
+    addLevel: { en: '+ Add Floor', zh: '+ 新增樓層' },
+    renameLevel: { en: 'Rename', zh: '重新命名' },
+    renameLevelPrompt: { en: 'Enter a name for this floor:', zh: '請輸入樓層名稱：' },
+    removeLevel: { en: 'Remove', zh: '移除' },
+    removeLevelConfirm: { en: 'Remove this floor together with its plan, rendering and viewpoints?', zh: '確定要移除此樓層及其平面圖、渲染圖與視角嗎？' },
+    moveLevelUp: { en: 'Move earlier', zh: '往前移' },
+    moveLevelDown: { en: 'Move later', zh: '往後移' },
+    levelMissingPlan: { en: 'Every floor needs a plan before continuing.', zh: '每個樓層都需要平面圖才能繼續。' },
+    levelMissingRendering: { en: 'Every floor needs a rendering before continuing.', zh: '每個樓層都需要渲染圖才能繼續。' },
+
     // Step2Rendering.tsx
     step2Title: { en: 'Step 2: Clean & Render Floor Plan', zh: '步驟 2：清理並渲染平面圖' },
     step2Description: { en: 'The AI will remove text and annotations, then create a clean 3D top-down rendering. You can make corrections if needed.', zh: 'AI 將移除文字和標註，並生成乾淨的 3D 俯視渲染圖。如果需要，您可以進行修正。' },
@@ -81,6 +164,64 @@ const translations = {
     selectionConfirmationTitle: { en: 'Confirm Your Choice', zh: '確認您的選擇' },
     confirmSelectionButton: { en: 'Yes, I want this image', zh: '是，我要這張' },
     backToSelectionButton: { en: 'Back to Selection', zh: '返回選擇' },
+    useAsFinalPlan: { en: 'Use as Final Plan', zh: '設為最終平面圖' },
+    compareWithOriginal: { en: 'Compare with Original', zh: '與原圖比較' },
+    compareWithPrevious: { en: 'Compare with Previous', zh: '與上一版比較' },
+    originalPlanLabel: { en: 'Original plan', zh: '原始平面圖' },
+    previousVersionLabel: { en: 'Previous version', zh: '上一版' },
+    currentVersionLabel: { en: 'Current version', zh: '目前版本' },
+
+    // ComparisonModal.tsx
+    compareVersions: { en: 'Compare Versions', zh: '比較版本' },
+    compareSwipe: { en: 'Swipe', zh: '滑動比較' },
+    compareSideBySide: { en: 'Side by Side', zh: '並排比較' },
+    compareOnionSkin: { en: 'Overlay', zh: '疊圖比較' },
+    compareDifference: { en: 'Difference', zh: '差異熱圖' },
+    overlayOpacity: { en: 'Overlay opacity', zh: '疊圖透明度' },
+    computingDifference: { en: 'Comparing pixels...', zh: '正在比較像素...' },
+    changedArea: { en: 'Changed area', zh: '變更面積' },
+    compareDifferenceFailed: { en: 'Failed to compare the images.', zh: '無法比較圖片。' },
+    closeComparison: { en: 'Close', zh: '關閉' },
+
+    // DrawingCanvas.tsx
+    maskBrush: { en: 'Brush', zh: '筆刷' },
+    maskEraser: { en: 'Eraser', zh: '橡皮擦' },
+    maskRectangle: { en: 'Rectangle', zh: '矩形' },
+    maskEllipse: { en: 'Ellipse', zh: '橢圓' },
+    maskLasso: { en: 'Lasso', zh: '套索' },
+    maskInvert: { en: 'Invert', zh: '反轉' },
+    maskUndo: { en: 'Undo', zh: '復原' },
+    maskRedo: { en: 'Redo', zh: '重做' },
+    maskSettings: { en: 'Brush & mask settings', zh: '筆刷與遮罩設定' },
+    brushSize: { en: 'Size', zh: '大小' },
+    brushHardness: { en: 'Hardness', zh: '硬度' },
+    maskFeather: { en: 'Feather', zh: '羽化' },
+    maskOpacity: { en: 'Preview opacity', zh: '預覽透明度' },
+    lassoHint: { en: 'Click to add points; click the first point or double-click to close the shape.', zh: '點擊以新增頂點；點擊第一個頂點或雙擊以封閉形狀。' },
+    maskMagicSelect: { en: 'Magic Select', zh: '魔術選取' },
+    magicSelectHint: { en: 'Click an object or area to add it to the selection, then refine it with the brush or eraser.', zh: '點擊物件或區域即可加入選取範圍，再用筆刷或橡皮擦微調。' },
+    magicTolerance: { en: 'Tolerance', zh: '容差' },
+    magicUseModel: { en: 'Ask the AI to outline the object', zh: '由 AI 描繪物件輪廓' },
+    magicSelectFailed: { en: 'Failed to select the clicked area. Please try again or paint it by hand.', zh: '無法選取點擊的區域，請重試或手動繪製。' },
+    regionLabel: { en: 'Region', zh: '區域' },
+    addRegion: { en: 'Add region', zh: '新增區域' },
+    removeRegion: { en: 'Remove region', zh: '移除區域' },
+    regionPromptPlaceholder: { en: 'what to change here (leave empty to use the main instruction)', zh: '此處要修改的內容（留空則使用主要指示）' },
+    regionEditMode: { en: 'Apply regions', zh: '套用區域' },
+    regionModeComposed: { en: 'Together in one edit', zh: '一次同時編輯' },
+    regionModeSequential: { en: 'One after another', zh: '依序逐一編輯' },
+    enterRegionPromptAlert: { en: 'Please describe the change for every painted region, or enter a main instruction to use for the rest.', zh: '請為每個已繪製的區域描述修改內容，或輸入主要指示套用於其餘區域。' },
+    regionsWithObjectAlert: { en: 'An object image can only be placed with a single region. Please remove the extra regions or the object image.', zh: '物件圖片只能搭配單一區域放置。請移除多餘的區域或物件圖片。' },
+
+    // VersionTree.tsx
+    versionHistory: { en: 'Version History', zh: '版本歷程' },
+    versionHistoryHint: { en: 'Click any version to view it. Your next edit branches from the version shown; the one marked Final is used in Step 3.', zh: '點擊任一版本即可檢視。下一次編輯會從目前顯示的版本分支；標示為「最終」的版本將用於步驟 3。' },
+    finalVersion: { en: 'Final', zh: '最終' },
+    versionInitial: { en: 'Initial rendering', zh: '初始渲染' },
+    versionCorrection: { en: 'Correction', zh: '修正' },
+    versionAutoMaterial: { en: 'Auto-materials', zh: '自動材質' },
+    versionDollhouse: { en: 'Dollhouse view', zh: '擬真娃娃屋' },
+    versionMask: { en: 'Edited area', zh: '編輯區域' },
 
     // Step3SceneGeneration.tsx
     step3Title: { en: 'Step 3: Generate Interior Scenes', zh: '步驟 3：生成室內場景' },
@@ -93,8 +234,40 @@ const translations = {
     generateScenes: { en: 'Generate Scenes', zh: '生成場景' },
     generating: { en: 'Generating...', zh: '生成中...' },
     clearViewpoints: { en: 'Clear All', zh: '清除全部' },
-    removeLastViewpoint: { en: 'Remove Last', zh: '移除上個視角' },
-    allViewpointsCleared: { en: 'All viewpoints have been cleared.', zh: '已清除所有視角。'},
+    deleteViewpoint: { en: 'Delete Viewpoint', zh: '刪除視角' },
+    moveViewpointEarlier: { en: 'Move viewpoint earlier', zh: '視角往前移' },
+    moveViewpointLater: { en: 'Move viewpoint later', zh: '視角往後移' },
+    sceneOutdated: { en: 'Viewpoint changed', zh: '視角已變更' },
+    regenerateScene: { en: 'Regenerate', zh: '重新生成' },
+    viewpointDragHint: { en: 'Click to place a viewpoint, or drag from it towards where the camera should look. Drag a viewpoint to move it, or drag its white handle to turn it.', zh: '點擊放置視角，或從該點拖曳至相機要面對的方向。拖曳視角可移動位置，拖曳白色控點可旋轉方向。' },
+    fieldOfView: { en: 'Field of view', zh: '視野角度' },
+    autoPlaceViewpoints: { en: 'Auto-place Viewpoints', zh: '自動配置視角' },
+    detectingRooms: { en: 'Finding rooms...', zh: '正在辨識空間...' },
+    suggestedViewpoints: { en: 'Suggested viewpoints', zh: '建議視角' },
+    suggestedViewpointsHint: { en: 'The detected rooms are outlined on the plan. Tick the camera spots you want to add.', zh: '已在平面圖上標出辨識到的空間，請勾選要加入的相機位置。' },
+    cameraSpot: { en: 'Camera', zh: '相機' },
+    addSelectedViewpoints: { en: 'Add Selected', zh: '加入所選' },
+    addAllViewpoints: { en: 'Add All', zh: '全部加入' },
+    dismissSuggestions: { en: 'Dismiss', zh: '略過' },
+    noRoomsDetected: { en: 'No rooms could be found on this plan. Please place viewpoints manually.', zh: '無法在此平面圖上辨識空間，請手動放置視角。' },
+    roomType: { en: 'Room', zh: '空間' },
+    roomUnspecified: { en: 'Not set', zh: '未指定' },
+    roomLiving: { en: 'Living Room', zh: '客廳' },
+    roomDining: { en: 'Dining Room', zh: '餐廳' },
+    roomKitchen: { en: 'Kitchen', zh: '廚房' },
+    roomBedroom: { en: 'Bedroom', zh: '臥室' },
+    roomBathroom: { en: 'Bathroom', zh: '浴室' },
+    roomStudy: { en: 'Study', zh: '書房' },
+    roomEntrance: { en: 'Entrance', zh: '玄關' },
+    roomBalcony: { en: 'Balcony', zh: '陽台' },
+    roomDetectionFailed: { en: 'Failed to detect rooms. Please place viewpoints manually.', zh: '空間辨識失敗，請手動放置視角。' },
+    viewpointDefaults: { en: 'All viewpoints', zh: '所有視角' },
+    viewpointDefaultsHint: { en: 'These settings apply to every viewpoint. Select a viewpoint on the plan to give it its own.', zh: '這些設定會套用到所有視角。在平面圖上選取視角可個別設定。' },
+    viewpointOverridesHint: { en: 'Settings left unchanged follow those of all viewpoints.', zh: '未變更的設定將沿用所有視角的設定。' },
+    viewpointStyle: { en: 'Style for this viewpoint', zh: '此視角的風格' },
+    lighting: { en: 'Lighting', zh: '燈光' },
+    useDefaultSettings: { en: 'Use Default Settings', zh: '使用預設設定' },
+    northHeading: { en: 'North arrow on plan', zh: '平面圖指北方向' },
     downloadAllZip: { en: 'Download All (.zip)', zh: '全部下載 (.zip)' },
     viewpoint: { en: 'Viewpoint', zh: '視角' },
     generationFailed: { en: 'Failed', zh: '生成失敗' },
@@ -116,6 +289,9 @@ const translations = {
     downloadEditedScenes: { en: 'Download All (.zip)', zh: '全部下載 (.zip)' },
     addObject: { en: 'Add Object', zh: '新增物件' },
     clearObject: { en: 'Clear Object', zh: '清除物件' },
+    compareEdits: { en: 'Compare', zh: '比較' },
+    originalSceneLabel: { en: 'Original scene', zh: '原始場景' },
+    editedSceneLabel: { en: 'Edited scene', zh: '編輯後場景' },
 
     // Step5Presentation.tsx (was Step4)
     step5Title: { en: 'Step 5: Finalize Your Design Presentation', zh: '步驟 5：完成您的設計簡報' },
@@ -151,10 +327,67 @@ const translations = {
     // AnimatedSlideshow.tsx
     closeSlideshow: { en: 'Close', zh: '關閉' },
 
-    // InteractiveSceneModal.tsx & Step4SceneEditing.tsx
+    // StyleLibraryModal.tsx
+    styleLibrary: { en: 'Style Library', zh: '風格庫' },
+    loadingStyleLibrary: { en: 'Loading saved styles...', zh: '正在載入已儲存的風格...' },
+    styleLibraryEmpty: { en: 'No saved styles yet. Create one to reuse a house style across projects.', zh: '尚未儲存任何風格。建立風格後即可在不同專案中重複使用。' },
+    styleLibraryFailed: { en: 'The style library could not be updated. Please try again.', zh: '無法更新風格庫，請再試一次。' },
+    newStylePreset: { en: 'New Style', zh: '新增風格' },
+    applyStylePreset: { en: 'Use', zh: '套用' },
+    editStylePreset: { en: 'Edit', zh: '編輯' },
+    deleteStylePreset: { en: 'Delete', zh: '刪除' },
+    deleteStylePresetConfirm: { en: 'Delete this style from the library? Projects that use it keep their copy.', zh: '確定要從風格庫刪除此風格嗎？已使用此風格的專案會保留其副本。' },
+    closeStyleLibrary: { en: 'Close', zh: '關閉' },
+    stylePresetName: { en: 'Style name', zh: '風格名稱' },
+    colorPalette: { en: 'Colour palette', zh: '色彩配置' },
+    addColor: { en: '+ Colour', zh: '+ 顏色' },
+    removeColor: { en: 'Remove colour', zh: '移除顏色' },
+    materialFloor: { en: 'Floor', zh: '地板' },
+    materialWall: { en: 'Walls', zh: '牆面' },
+    materialJoinery: { en: 'Joinery', zh: '木作' },
+    materialFabrics: { en: 'Fabrics', zh: '布料' },
+    moodBoard: { en: 'Mood board', zh: '情境板' },
+    moodBoardImages: { en: 'mood-board images', zh: '張情境板圖片' },
+    addImages: { en: '+ Images', zh: '+ 圖片' },
+    removeImage: { en: 'Remove image', zh: '移除圖片' },
+    moodBoardUploadFailed: { en: 'The image could not be read. Please try another file.', zh: '無法讀取此圖片，請改用其他檔案。' },
+    moodBoardHint: { en: 'Add screenshots or photos the client sent. Every scene matches their palette, materials and furniture, and Suggest Style reads the style from them.', zh: '加入客戶提供的截圖或照片。所有場景都會參考其配色、材質與家具風格，「建議風格」也會依此分析風格。' },
+    styleDescription: { en: 'Style description', zh: '風格描述' },
+    styleDescriptionPlaceholder: { en: 'Palette, materials and furniture that define the style', zh: '定義此風格的配色、材質與家具' },
+    consistencyMode: { en: 'Consistency mode', zh: '一致性模式' },
+    consistencyModeHint: { en: 'Writes a furniture and material schedule first, then renders the views one by one so each matches those already finished. Slower, but the same room looks the same in every view.', zh: '先擬定家具與材質清單，再逐一生成各視角，讓每個場景都與已完成的場景一致。速度較慢，但同一空間在各視角中的樣貌會相同。' },
+    designBrief: { en: 'Design brief', zh: '設計清單' },
+    designBriefPending: { en: 'The design brief is written when you generate the scenes.', zh: '生成場景時會先擬定設計清單。' },
+    designBriefOutdated: { en: 'written for another style; it is rewritten on the next generation', zh: '此清單屬於其他風格，下次生成時會重新擬定' },
+    writingDesignBrief: { en: 'Writing design brief...', zh: '正在擬定設計清單...' },
+    writeDesignBrief: { en: 'Write Brief Now', zh: '立即擬定清單' },
+    rewriteDesignBrief: { en: 'Rewrite Brief', zh: '重新擬定清單' },
+    designBriefFailed: { en: 'The design brief could not be written. Scenes will only be matched to each other.', zh: '無法擬定設計清單，場景僅會彼此參照。' },
+    usingStylePreset: { en: 'Using saved style', zh: '使用已儲存風格' },
+    detachStylePreset: { en: 'Stop using', zh: '停止使用' },
+
+    // LightingControls.tsx
+    lightingDaylight: { en: 'Daylight', zh: '日光' },
+    lightingGoldenHour: { en: 'Golden Hour', zh: '黃金時刻' },
+    lightingOvercast: { en: 'Overcast', zh: '陰天' },
+    lightingBlueHour: { en: 'Blue Hour', zh: '藍調時刻' },
+    lightingLampsOn: { en: 'Night, Lamps On', zh: '夜晚開燈' },
+    timeOfDay: { en: 'Time of day', zh: '時段' },
     day: { en: 'Day', zh: '白天' },
+    goldenHour: { en: 'Golden hour', zh: '黃金時刻' },
+    dusk: { en: 'Dusk', zh: '黃昏' },
+    blueHour: { en: 'Blue hour', zh: '藍調時刻' },
     night: { en: 'Night', zh: '夜晚' },
-    colorTemperature: { en: 'Color Temperature', zh: '色溫' },
+    weather: { en: 'Weather', zh: '天氣' },
+    weatherClear: { en: 'Clear', zh: '晴朗' },
+    weatherOvercast: { en: 'Overcast', zh: '陰天' },
+    weatherRain: { en: 'Rain', zh: '雨天' },
+    sunBearing: { en: 'Sun direction (from north)', zh: '太陽方位（以北為準）' },
+    lampIntensity: { en: 'Interior lamps', zh: '室內燈光' },
+    lampsOff: { en: 'Off', zh: '關閉' },
+    lampTemperature: { en: 'Lamp color temperature', zh: '燈光色溫' },
+
+    // InteractiveSceneModal.tsx & Step4SceneEditing.tsx
     updatingLighting: { en: 'Updating lighting...', zh: '正在更新燈光...' },
 };
 
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The heatmap is for reviewing, not measuring, so large renderings are compared at a reduced size.
+const DIFFERENCE_MAX_SIZE = 1024;
+// Per-pixel differences below this (0-255) are compression noise rather than edits.
+const NOISE_THRESHOLD = 24;
+
+export interface DifferenceHeatmap {
+    /** A PNG data URL: the newer image faded to grey, with changed pixels from yellow (slight) to red (strong). */
+    image: string;
+    /** The share of pixels that changed, from 0 to 1. */
+    changedRatio: number;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'Anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = src;
+    });
+}
+
+function readPixels(img: HTMLImageElement, width: number, height: number): ImageData {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Compares two versions of an image pixel by pixel. The older image is stretched to the newer
+ * one's size, so both should show the same framing.
+ * @param beforeSrc The earlier version.
+ * @param afterSrc The later version.
+ */
+export async function computeDifferenceHeatmap(beforeSrc: string, afterSrc: string): Promise<DifferenceHeatmap> {
+    const [before, after] = await Promise.all([loadImage(beforeSrc), loadImage(afterSrc)]);
+    const scale = Math.min(1, DIFFERENCE_MAX_SIZE / Math.max(after.naturalWidth, after.naturalHeight));
+    const width = Math.max(1, Math.round(after.naturalWidth * scale));
+    const height = Math.max(1, Math.round(after.naturalHeight * scale));
+
+    const beforeData = readPixels(before, width, height).data;
+    const result = readPixels(after, width, height);
+    const data = result.data;
+    let changed = 0;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const difference = (Math.abs(data[i] - beforeData[i]) + Math.abs(data[i + 1] - beforeData[i + 1]) + Math.abs(data[i + 2] - beforeData[i + 2])) / 3;
+        // A light grey copy of the newer image keeps the heatmap readable.
+        const grey = 170 + (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 3;
+        if (difference < NOISE_THRESHOLD) {
+            data[i] = data[i + 1] = data[i + 2] = grey;
+        } else {
+            changed++;
+            const strength = Math.min(1, difference / 128);
+            const alpha = 0.5 + strength / 2;
+            data[i] = 255 * alpha + grey * (1 - alpha);
+            data[i + 1] = 220 * (1 - strength) * alpha + grey * (1 - alpha);
+            data[i + 2] = grey * (1 - alpha);
+        }
+        data[i + 3] = 255;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.putImageData(result, 0, 0);
+    return { image: canvas.toDataURL('image/png'), changedRatio: changed / (width * height) };
+}
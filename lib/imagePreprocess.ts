@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A point in normalised image coordinates, where (0, 0) is the top-left and (1, 1) the bottom-right corner.
+ */
+export interface NormalizedPoint {
+    x: number;
+    y: number;
+}
+
+export interface NormalizedRect {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+/**
+ * The corners of the plan's sheet, clockwise from top-left.
+ */
+export type CornerQuad = [NormalizedPoint, NormalizedPoint, NormalizedPoint, NormalizedPoint];
+
+/**
+ * The clean-up applied to a plan photo. Geometry is applied in order rotation, then either the
+ * perspective corners or the crop rectangle, both expressed relative to the rotated image.
+ */
+export interface PreprocessSettings {
+    quarterTurns: number;
+    fineRotation: number;
+    crop: NormalizedRect;
+    corners: CornerQuad | null;
+    brightness: number;
+    contrast: number;
+    threshold: number | null;
+}
+
+export const DEFAULT_CROP: NormalizedRect = { left: 0, top: 0, right: 1, bottom: 1 };
+
+export const DEFAULT_CORNERS: CornerQuad = [
+    { x: 0.05, y: 0.05 },
+    { x: 0.95, y: 0.05 },
+    { x: 0.95, y: 0.95 },
+    { x: 0.05, y: 0.95 },
+];
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+    quarterTurns: 0,
+    fineRotation: 0,
+    crop: DEFAULT_CROP,
+    corners: null,
+    brightness: 0,
+    contrast: 0,
+    threshold: null,
+};
+
+export const DEFAULT_THRESHOLD = 160;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'Anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = src;
+    });
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    return [canvas, ctx];
+}
+
+/**
+ * Draws the image rotated by the given angle onto a canvas just large enough to hold it,
+ * filling the exposed corners with white.
+ */
+function rotateImage(source: CanvasImageSource, width: number, height: number, degrees: number, scale: number): HTMLCanvasElement {
+    const radians = degrees * Math.PI / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    const [canvas, ctx] = createCanvas((width * cos + height * sin) * scale, (width * sin + height * cos) * scale);
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(radians);
+    ctx.scale(scale, scale);
+    ctx.drawImage(source, -width / 2, -height / 2, width, height);
+    return canvas;
+}
+
+function cropCanvas(source: HTMLCanvasElement, crop: NormalizedRect): HTMLCanvasElement {
+    const x = crop.left * source.width;
+    const y = crop.top * source.height;
+    const width = (crop.right - crop.left) * source.width;
+    const height = (crop.bottom - crop.top) * source.height;
+    const [canvas, ctx] = createCanvas(width, height);
+    ctx.drawImage(source, x, y, width, height, 0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+/**
+ * Solves for the projective transform mapping the four `from` points onto the four `to` points.
+ * @returns The 3x3 matrix in row-major order with the last element fixed to 1.
+ */
+function computeHomography(from: NormalizedPoint[], to: NormalizedPoint[]): number[] {
+    // Build the 8x8 linear system A·h = b.
+    const rows: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+
+    // Gaussian elimination with partial pivoting.
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < 8; row++) {
+            if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+        }
+        if (Math.abs(rows[pivot][col]) < 1e-12) {
+            throw new Error('The corner points must form a valid quadrilateral.');
+        }
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        for (let row = 0; row < 8; row++) {
+            if (row === col) continue;
+            const factor = rows[row][col] / rows[col][col];
+            for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+        }
+    }
+    return [...rows.map((row, i) => row[8] / row[i]), 1];
+}
+
+const distance = (a: NormalizedPoint, b: NormalizedPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Maps the quadrilateral outlined by `corners` onto an upright rectangle, removing the keystone
+ * distortion of a plan photographed at an angle.
+ */
+function warpPerspective(source: HTMLCanvasElement, corners: CornerQuad): HTMLCanvasElement {
+    const srcCorners = corners.map(({ x, y }) => ({ x: x * source.width, y: y * source.height }));
+    const [tl, tr, br, bl] = srcCorners;
+    const width = Math.max(distance(tl, tr), distance(bl, br));
+    const height = Math.max(distance(tl, bl), distance(tr, br));
+    const [canvas, ctx] = createCanvas(width, height);
+
+    // Map each output pixel back into the source so every pixel gets a value.
+    const dstCorners = [{ x: 0, y: 0 }, { x: canvas.width, y: 0 }, { x: canvas.width, y: canvas.height }, { x: 0, y: canvas.height }];
+    const [a, b, c, d, e, f, g, h] = computeHomography(dstCorners, srcCorners);
+
+    const src = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+    const out = ctx.createImageData(canvas.width, canvas.height);
+    const sw = source.width;
+    const sh = source.height;
+
+    for (let y = 0; y < canvas.height; y++) {
+        for (let x = 0; x < canvas.width; x++) {
+            const w = g * x + h * y + 1;
+            const sx = (a * x + b * y + c) / w;
+            const sy = (d * x + e * y + f) / w;
+            const o = (y * canvas.width + x) * 4;
+            if (sx < 0 || sy < 0 || sx > sw - 1 || sy > sh - 1) {
+                out.data[o] = out.data[o + 1] = out.data[o + 2] = out.data[o + 3] = 255;
+                continue;
+            }
+            // Bilinear sampling.
+            const x0 = Math.floor(sx);
+            const y0 = Math.floor(sy);
+            const x1 = Math.min(x0 + 1, sw - 1);
+            const y1 = Math.min(y0 + 1, sh - 1);
+            const fx = sx - x0;
+            const fy = sy - y0;
+            for (let ch = 0; ch < 4; ch++) {
+                const top = src.data[(y0 * sw + x0) * 4 + ch] * (1 - fx) + src.data[(y0 * sw + x1) * 4 + ch] * fx;
+                const bottom = src.data[(y1 * sw + x0) * 4 + ch] * (1 - fx) + src.data[(y1 * sw + x1) * 4 + ch] * fx;
+                out.data[o + ch] = top * (1 - fy) + bottom * fy;
+            }
+        }
+    }
+    ctx.putImageData(out, 0, 0);
+    return canvas;
+}
+
+/**
+ * Applies brightness, contrast and optional black-and-white thresholding in place.
+ */
+function applyTone(canvas: HTMLCanvasElement, settings: PreprocessSettings): void {
+    if (!settings.brightness && !settings.contrast && settings.threshold === null) return;
+
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const data = image.data;
+    // Standard contrast correction factor, with contrast given on a -100..100 scale.
+    const contrast = settings.contrast * 2.55;
+    const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+    const brightness = settings.brightness * 2.55;
+
+    for (let i = 0; i < data.length; i += 4) {
+        for (let ch = 0; ch < 3; ch++) {
+            data[i + ch] = factor * (data[i + ch] - 128) + 128 + brightness;
+        }
+        if (settings.threshold !== null) {
+            const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+            data[i] = data[i + 1] = data[i + 2] = luminance >= settings.threshold ? 255 : 0;
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Renders the rotated, tone-adjusted image without cropping, for the editor's preview stage.
+ * @param src The original image.
+ * @param settings The current clean-up settings.
+ * @param maxSize The preview's longest side in pixels.
+ * @returns A promise resolving to a JPEG data URL.
+ */
+export async function renderPreprocessPreview(src: string, settings: PreprocessSettings, maxSize: number): Promise<string> {
+    const img = await loadImage(src);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const rotated = rotateImage(img, img.naturalWidth, img.naturalHeight, settings.quarterTurns * 90 + settings.fineRotation, scale);
+    applyTone(rotated, settings);
+    return rotated.toDataURL('image/jpeg', 0.85);
+}
+
+/**
+ * Runs the full clean-up pipeline at the original resolution.
+ * @param src The original image.
+ * @param settings The clean-up settings.
+ * @returns A promise resolving to a PNG data URL of the cleaned plan.
+ */
+export async function applyPreprocessing(src: string, settings: PreprocessSettings): Promise<string> {
+    const img = await loadImage(src);
+    let canvas = rotateImage(img, img.naturalWidth, img.naturalHeight, settings.quarterTurns * 90 + settings.fineRotation, 1);
+    canvas = settings.corners ? warpPerspective(canvas, settings.corners) : cropCanvas(canvas, settings.crop);
+    applyTone(canvas, settings);
+    return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GeneratedScene, ScenePoint } from '../components/Step3SceneGeneration';
+import type { PlanScale } from './planScale';
+import type { RenderingVersion } from './renderingVersions';
+import type { DesignBrief } from '../services/geminiService';
+
+/**
+ * One floor of the project, with its own plan, rendering and viewpoints.
+ */
+export interface Level {
+    id: string;
+    name: string;
+    /** The plan as originally uploaded, before any crop, rotation or cleanup. */
+    sourceImage: string;
+    uploadedImage: string;
+    /** The rendering of the final version, which Step 3 places viewpoints on. */
+    renderedImage: string;
+    planScale: PlanScale | null;
+    /** The plan heading the north arrow points to, clockwise from the top of the plan. */
+    northHeading: number;
+    /** Every rendering generated in Step 2, as a tree of edits. */
+    renderingVersions: RenderingVersion[];
+    finalVersionId: string | null;
+    scenePoints: ScenePoint[];
+    generatedScenes: GeneratedScene[];
+    /** The furniture and material schedule the floor's scenes share in consistency mode. */
+    designBrief: DesignBrief | null;
+}
+
+/**
+ * The parts of a level the presentation needs to draw its concept slide.
+ */
+export interface LevelPlan {
+    name: string;
+    image: string;
+    planScale: PlanScale | null;
+}
+
+/**
+ * Creates an empty level. Levels are named like "1F", "2F", which reads the same in every language.
+ * @param index The 0-based position of the level in the project.
+ */
+export function createLevel(index: number): Level {
+    return {
+        id: crypto.randomUUID(),
+        name: `${index + 1}F`,
+        sourceImage: '',
+        uploadedImage: '',
+        renderedImage: '',
+        planScale: null,
+        northHeading: 0,
+        renderingVersions: [],
+        finalVersionId: null,
+        scenePoints: [],
+        generatedScenes: [],
+        designBrief: null,
+    };
+}
+
+/**
+ * Lists the rendered plan of every level that has one, in level order.
+ */
+export function getLevelPlans(levels: Level[]): LevelPlan[] {
+    return levels
+        .filter(level => level.renderedImage)
+        .map(level => ({ name: level.name, image: level.renderedImage, planScale: level.planScale }));
+}
+
+/**
+ * Collects the scenes of all levels in level order, as shown in the presentation.
+ */
+export function getAllScenes(levels: Level[]): GeneratedScene[] {
+    return levels.flatMap(level => level.generatedScenes);
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { getTranslation } from './i18n';
+
+export type TimeOfDay = 'day' | 'goldenHour' | 'dusk' | 'blueHour' | 'night';
+
+export const TIMES_OF_DAY: TimeOfDay[] = ['day', 'goldenHour', 'dusk', 'blueHour', 'night'];
+
+export type Weather = 'clear' | 'overcast' | 'rain';
+
+export const WEATHER_TYPES: Weather[] = ['clear', 'overcast', 'rain'];
+
+export const MIN_COLOR_TEMPERATURE = 2700;
+export const MAX_COLOR_TEMPERATURE = 7500;
+
+/**
+ * How a scene is lit: the daylight outside and the lamps inside.
+ */
+export interface LightingPreset {
+    timeOfDay: TimeOfDay;
+    weather: Weather;
+    /** The compass bearing of the sun, in degrees clockwise from true north. */
+    sunBearing: number;
+    /** How brightly the interior lamps are lit, from 0 (all off) to 100 (all on). */
+    lampIntensity: number;
+    /** The color temperature of the interior lamps in Kelvin. */
+    temperature: number;
+}
+
+type LightingPresetName = 'daylight' | 'goldenHour' | 'overcast' | 'blueHour' | 'lampsOn';
+
+interface LightingPresetDetails {
+    lighting: LightingPreset;
+    labelKey: Parameters<typeof getTranslation>[0];
+}
+
+/**
+ * Ready-made lighting setups designers ask for most; every field can still be adjusted afterwards.
+ */
+export const LIGHTING_PRESETS: Record<LightingPresetName, LightingPresetDetails> = {
+    daylight: { lighting: { timeOfDay: 'day', weather: 'clear', sunBearing: 180, lampIntensity: 0, temperature: 5500 }, labelKey: 'lightingDaylight' },
+    goldenHour: { lighting: { timeOfDay: 'goldenHour', weather: 'clear', sunBearing: 270, lampIntensity: 20, temperature: 3000 }, labelKey: 'lightingGoldenHour' },
+    overcast: { lighting: { timeOfDay: 'day', weather: 'overcast', sunBearing: 180, lampIntensity: 30, temperature: 4000 }, labelKey: 'lightingOvercast' },
+    blueHour: { lighting: { timeOfDay: 'blueHour', weather: 'clear', sunBearing: 270, lampIntensity: 70, temperature: 3000 }, labelKey: 'lightingBlueHour' },
+    lampsOn: { lighting: { timeOfDay: 'night', weather: 'clear', sunBearing: 180, lampIntensity: 100, temperature: 2700 }, labelKey: 'lightingLampsOn' },
+};
+
+export const DEFAULT_LIGHTING: LightingPreset = LIGHTING_PRESETS.daylight.lighting;
+
+export const TIME_OF_DAY_LABEL_KEYS: Record<TimeOfDay, Parameters<typeof getTranslation>[0]> = {
+    day: 'day',
+    goldenHour: 'goldenHour',
+    dusk: 'dusk',
+    blueHour: 'blueHour',
+    night: 'night',
+};
+
+export const WEATHER_LABEL_KEYS: Record<Weather, Parameters<typeof getTranslation>[0]> = {
+    clear: 'weatherClear',
+    overcast: 'weatherOvercast',
+    rain: 'weatherRain',
+};
+
+/**
+ * Tells whether the sun is low and bright enough to cast directional light into the rooms.
+ */
+export function hasDirectSun(lighting: LightingPreset): boolean {
+    return lighting.weather === 'clear' && (lighting.timeOfDay === 'day' || lighting.timeOfDay === 'goldenHour');
+}
+
+export function isSameLighting(a: LightingPreset, b: LightingPreset): boolean {
+    return a.timeOfDay === b.timeOfDay
+        && a.weather === b.weather
+        && a.sunBearing === b.sunBearing
+        && a.lampIntensity === b.lampIntensity
+        && a.temperature === b.temperature;
+}
+
+/**
+ * Converts the day/dusk/night mode and Kelvin value that scenes were saved with before lighting presets.
+ */
+export function lightingFromLegacyMode(mode: 'day' | 'dusk' | 'night' | undefined, temperature: number | undefined): LightingPreset {
+    const base = mode === 'night' ? LIGHTING_PRESETS.lampsOn.lighting
+        : mode === 'dusk' ? { ...LIGHTING_PRESETS.blueHour.lighting, timeOfDay: 'dusk' as const }
+        : DEFAULT_LIGHTING;
+    return { ...base, temperature: temperature ?? base.temperature };
+}
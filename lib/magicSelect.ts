@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const DEFAULT_MAGIC_TOLERANCE = 32;
+
+function colorDistance(data: Uint8ClampedArray, a: number, b: number): number {
+    return (Math.abs(data[a] - data[b]) + Math.abs(data[a + 1] - data[b + 1]) + Math.abs(data[a + 2] - data[b + 2])) / 3;
+}
+
+/**
+ * Grows a region from a pixel to its neighbours of similar colour, like a paint bucket.
+ * The region stops where colours drift too far from the clicked one, and also at edges:
+ * a jump between two neighbouring pixels of more than half the tolerance ends it, so a
+ * gradual shading across a wall is followed while the outline of a sofa on it is not crossed.
+ * @param image The pixels to select from.
+ * @param seedX The clicked column, in pixels.
+ * @param seedY The clicked row, in pixels.
+ * @param tolerance The largest average per-channel difference (0-255) from the clicked colour.
+ * @returns One value per pixel: 255 inside the region, 0 outside.
+ */
+export function selectSimilarRegion(image: ImageData, seedX: number, seedY: number, tolerance: number): Uint8ClampedArray {
+    const { width, height, data } = image;
+    const selected = new Uint8ClampedArray(width * height);
+    const x0 = Math.floor(seedX);
+    const y0 = Math.floor(seedY);
+    if (x0 < 0 || y0 < 0 || x0 >= width || y0 >= height) return selected;
+
+    const seed = (y0 * width + x0) * 4;
+    const edgeTolerance = tolerance / 2;
+    const stack = new Int32Array(width * height);
+    let size = 0;
+    stack[size++] = y0 * width + x0;
+    selected[y0 * width + x0] = 255;
+
+    while (size > 0) {
+        const pixel = stack[--size];
+        const x = pixel % width;
+        const neighbours = [
+            x > 0 ? pixel - 1 : -1,
+            x < width - 1 ? pixel + 1 : -1,
+            pixel - width,
+            pixel + width,
+        ];
+        for (const neighbour of neighbours) {
+            if (neighbour < 0 || neighbour >= width * height || selected[neighbour]) continue;
+            if (colorDistance(data, neighbour * 4, seed) > tolerance) continue;
+            if (colorDistance(data, neighbour * 4, pixel * 4) > edgeTolerance) continue;
+            selected[neighbour] = 255;
+            stack[size++] = neighbour;
+        }
+    }
+    return selected;
+}
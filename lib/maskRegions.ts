@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The colours regions are painted in, in the order they are added. The name is how prompts
+ * refer to the colour on the region map sent to the model.
+ */
+export const MASK_REGION_COLORS: { name: string; value: string }[] = [
+    { name: 'red', value: 'rgb(220, 38, 38)' },
+    { name: 'blue', value: 'rgb(37, 99, 235)' },
+    { name: 'green', value: 'rgb(22, 163, 74)' },
+    { name: 'yellow', value: 'rgb(234, 179, 8)' },
+    { name: 'purple', value: 'rgb(147, 51, 234)' },
+    { name: 'cyan', value: 'rgb(6, 182, 212)' },
+];
+
+/**
+ * One painted area of an image with the change to make inside it.
+ */
+export interface MaskRegionEdit {
+    prompt: string;
+    /** An entry of MASK_REGION_COLORS. */
+    color: { name: string; value: string };
+    /** The area as a black-and-white PNG, base64-encoded without a data URL prefix. */
+    maskBase64: string;
+}
+
+/**
+ * Whether several regions are sent to the model as one request with a colour-coded region map,
+ * or applied one after another, each edit building on the previous result.
+ */
+export type RegionEditMode = 'composed' | 'sequential';
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+export type { PDFDocumentProxy };
+
+// The worker must match the library version exactly, so it is loaded from the CDN by version.
+pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+
+// PDF page sizes are expressed in points, 72 to the inch.
+const PDF_POINTS_PER_INCH = 72;
+
+// Browsers refuse to allocate canvases much larger than this, and the models gain nothing from more.
+const MAX_RENDER_DIMENSION = 8192;
+
+export const PDF_DPI_OPTIONS = [72, 150, 200, 300] as const;
+export const DEFAULT_PDF_DPI = 150;
+
+/**
+ * Checks whether a selected file is a PDF document.
+ */
+export function isPdfFile(file: File): boolean {
+    return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
+/**
+ * Parses a PDF file. The returned document must be destroyed once it is no longer needed.
+ * @param file The PDF selected by the user.
+ * @returns A promise resolving to the loaded document.
+ */
+export async function loadPdfDocument(file: Blob): Promise<PDFDocumentProxy> {
+    const data = new Uint8Array(await file.arrayBuffer());
+    return pdfjsLib.getDocument({ data }).promise;
+}
+
+async function renderPage(pdf: PDFDocumentProxy, pageNumber: number, getScale: (width: number, height: number) => number, mimeType: string): Promise<string> {
+    const page = await pdf.getPage(pageNumber);
+    try {
+        const baseViewport = page.getViewport({ scale: 1 });
+        let scale = getScale(baseViewport.width, baseViewport.height);
+        scale = Math.min(scale, MAX_RENDER_DIMENSION / Math.max(baseViewport.width, baseViewport.height));
+        const viewport = page.getViewport({ scale });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context');
+
+        // PDF pages are transparent; plans are expected on white paper.
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvasContext: ctx, viewport }).promise;
+        return canvas.toDataURL(mimeType);
+    } finally {
+        page.cleanup();
+    }
+}
+
+/**
+ * Renders a small preview of a page for the page picker.
+ * @param pdf The loaded document.
+ * @param pageNumber The 1-based page number.
+ * @param width The preview width in pixels.
+ * @returns A promise resolving to a JPEG data URL.
+ */
+export function renderPdfThumbnail(pdf: PDFDocumentProxy, pageNumber: number, width: number): Promise<string> {
+    return renderPage(pdf, pageNumber, pageWidth => width / pageWidth, 'image/jpeg');
+}
+
+/**
+ * Rasterises a page at the given resolution so it can be used like an uploaded image.
+ * Very large pages are scaled down to stay within canvas limits.
+ * @param pdf The loaded document.
+ * @param pageNumber The 1-based page number.
+ * @param dpi The resolution in dots per inch.
+ * @returns A promise resolving to a PNG data URL.
+ */
+export function renderPdfPage(pdf: PDFDocumentProxy, pageNumber: number, dpi: number): Promise<string> {
+    return renderPage(pdf, pageNumber, () => dpi / PDF_POINTS_PER_INCH, 'image/png');
+}
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type LengthUnit = 'm' | 'ft';
+
+export const METRES_PER_FOOT = 0.3048;
+
+// How far, as a share, the width and height scale factors may differ before an image is taken to show a different extent.
+const EXTENT_MISMATCH_TOLERANCE = 0.02;
+
+/**
+ * The real-world scale of the plan, calibrated from a reference line of known length.
+ */
+export interface PlanScale {
+    /** The reference line's end points, in pixels of the calibrated image. */
+    start: { x: number; y: number };
+    end: { x: number; y: number };
+    /** The real length of the reference line as entered by the user. */
+    length: number;
+    unit: LengthUnit;
+    pixelsPerMetre: number;
+    /** The natural size of the calibrated image, used to carry the scale over to re-rendered plans. */
+    imageWidth: number;
+    /** Missing on scales saved before the height was recorded. */
+    imageHeight?: number;
+}
+
+/**
+ * Derives the plan scale from a reference line and its real length.
+ * @param start The line's start point in image pixels.
+ * @param end The line's end point in image pixels.
+ * @param length The real length of the line.
+ * @param unit The unit `length` is given in.
+ * @param imageWidth The natural width of the image the line was drawn on.
+ * @param imageHeight The natural height of the image the line was drawn on.
+ * @returns The calibrated plan scale.
+ */
+export function createPlanScale(start: PlanScale['start'], end: PlanScale['end'], length: number, unit: LengthUnit, imageWidth: number, imageHeight: number): PlanScale {
+    const metres = unit === 'ft' ? length * METRES_PER_FOOT : length;
+    const pixels = Math.hypot(end.x - start.x, end.y - start.y);
+    return { start, end, length, unit, pixelsPerMetre: pixels / metres, imageWidth, imageHeight };
+}
+
+/**
+ * Converts the scale to an image of a different pixel size, such as the Step 2 rendering of the
+ * calibrated upload. This only holds if the image shows exactly the calibrated plan extent, so an
+ * image whose width and height were resized by different factors (cropped, padded or reframed
+ * by the image model) has no usable scale.
+ * @returns The image's pixels per metre, or null when its proportions do not match the calibrated image.
+ */
+export function pixelsPerMetreForImage(scale: PlanScale, imageWidth: number, imageHeight: number): number | null {
+    const widthRatio = imageWidth / scale.imageWidth;
+    if (!scale.imageHeight) {
+        return scale.pixelsPerMetre * widthRatio;
+    }
+    const heightRatio = imageHeight / scale.imageHeight;
+    if (Math.abs(widthRatio - heightRatio) > EXTENT_MISMATCH_TOLERANCE * Math.max(widthRatio, heightRatio)) {
+        return null;
+    }
+    return scale.pixelsPerMetre * (widthRatio + heightRatio) / 2;
+}
+
+/**
+ * Formats a length given in metres in the unit the user calibrated with.
+ */
+export function formatLength(metres: number, unit: LengthUnit): string {
+    const value = unit === 'ft' ? metres / METRES_PER_FOOT : metres;
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${unit}`;
+}
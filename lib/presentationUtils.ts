@@ -5,6 +5,8 @@
 import { PresentationText } from '../services/geminiService';
 import { GeneratedScene } from '../components/Step3SceneGeneration';
 import { Language, getTranslation } from './i18n';
+import type { LevelPlan } from './levels';
+import { METRES_PER_FOOT, PlanScale, pixelsPerMetreForImage } from './planScale';
 
 type ColorThemeNameKey = 'themeModernBlue' | 'themeEarthTones' | 'themeMinimalistGray' | 'themeVibrantCreative' | 'themeElegantNoir' | 'themeSakuraPink';
 
@@ -175,8 +177,9 @@ function drawTextWithAutoSize(
 
 /**
  * Draws an image to fill the entire canvas, cropping as needed while preserving aspect ratio.
+ * @returns The number of canvas pixels per source image pixel.
  */
-function drawFullBleedImage(ctx: CanvasRenderingContext2D, image: HTMLImageElement) {
+function drawFullBleedImage(ctx: CanvasRenderingContext2D, image: HTMLImageElement): number {
     const sWidth = image.naturalWidth;
     const sHeight = image.naturalHeight;
     const sAspect = sWidth / sHeight;
@@ -195,6 +198,44 @@ function drawFullBleedImage(ctx: CanvasRenderingContext2D, image: HTMLImageEleme
         sy = (sHeight - sh) / 2;
     }
     ctx.drawImage(image, sx, sy, sw, sh, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    return CANVAS_WIDTH / sw;
+}
+
+const SCALE_BAR_STEPS = [0.5, 1, 2, 5, 10, 20, 50, 100];
+const SCALE_BAR_MAX_WIDTH = 320;
+
+/**
+ * Draws a graphic scale bar in the top-left corner, picking the longest round length that fits.
+ * @param pixelsPerMetre Canvas pixels per real-world metre.
+ */
+function drawScaleBar(ctx: CanvasRenderingContext2D, pixelsPerMetre: number, unit: PlanScale['unit'], theme: ColorTheme) {
+    const pixelsPerUnit = unit === 'ft' ? pixelsPerMetre * METRES_PER_FOOT : pixelsPerMetre;
+    const length = [...SCALE_BAR_STEPS].reverse().find(step => step * pixelsPerUnit <= SCALE_BAR_MAX_WIDTH);
+    if (!length) return;
+
+    const barWidth = length * pixelsPerUnit;
+    const segments = 4;
+    const x = PADDING;
+    const y = PADDING;
+
+    ctx.fillStyle = theme.colors.titleBackground;
+    ctx.fillRect(x - 20, y - 20, barWidth + 40, 90);
+
+    for (let i = 0; i < segments; i++) {
+        ctx.fillStyle = i % 2 === 0 ? theme.colors.primaryText : theme.colors.background;
+        ctx.fillRect(x + (barWidth / segments) * i, y, barWidth / segments, 14);
+    }
+    ctx.strokeStyle = theme.colors.primaryText;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, barWidth, 14);
+
+    ctx.fillStyle = theme.colors.primaryText;
+    ctx.font = '28px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'left';
+    ctx.fillText('0', x, y + 24);
+    ctx.textAlign = 'right';
+    ctx.fillText(`${length} ${unit}`, x + barWidth, y + 24);
 }
 
 
@@ -220,12 +261,36 @@ async function drawTitleSlide(ctx: CanvasRenderingContext2D, text: PresentationT
 }
 
 
-async function drawConceptSlide(ctx: CanvasRenderingContext2D, text: PresentationText, planImageSrc: string, theme: ColorTheme) {
+/**
+ * Draws the level name as a badge in the top-right corner, so floors can be told apart.
+ */
+function drawLevelBadge(ctx: CanvasRenderingContext2D, name: string, theme: ColorTheme) {
+    ctx.font = 'bold 48px sans-serif';
+    const width = ctx.measureText(name).width + 60;
+    ctx.fillStyle = theme.colors.titleBackground;
+    ctx.fillRect(CANVAS_WIDTH - PADDING - width, PADDING - 20, width, 80);
+    ctx.fillStyle = theme.colors.primaryText;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(name, CANVAS_WIDTH - PADDING - width / 2, PADDING + 20);
+}
+
+
+async function drawConceptSlide(ctx: CanvasRenderingContext2D, text: PresentationText, plan: LevelPlan, showLevelName: boolean, theme: ColorTheme) {
     ctx.fillStyle = theme.colors.background;
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
-    const planImage = await loadImage(planImageSrc);
-    drawFullBleedImage(ctx, planImage);
+    const planImage = await loadImage(plan.image);
+    const imageScale = drawFullBleedImage(ctx, planImage);
+    // The scale only carries over if the final plan shows the same extent as the calibrated upload;
+    // a rendering reframed by the image model gets no scale bar rather than a wrong one.
+    const pixelsPerMetre = plan.planScale ? pixelsPerMetreForImage(plan.planScale, planImage.naturalWidth, planImage.naturalHeight) : null;
+    if (plan.planScale && pixelsPerMetre) {
+        drawScaleBar(ctx, pixelsPerMetre * imageScale, plan.planScale.unit, theme);
+    }
+    if (showLevelName) {
+        drawLevelBadge(ctx, plan.name, theme);
+    }
 
     ctx.fillStyle = theme.colors.titleBackground;
     ctx.fillRect(0, BANNER_Y, CANVAS_WIDTH, BANNER_HEIGHT);
@@ -289,17 +354,22 @@ async function drawConclusionSlide(ctx: CanvasRenderingContext2D, text: Presenta
 }
 
 
+/**
+ * Renders the presentation: a title slide, one concept slide per floor plan, one slide per
+ * viewpoint and a conclusion slide.
+ * @returns The slides as PNG data URLs, in presentation order.
+ */
 export async function generateSlides(
     text: PresentationText,
     scenes: GeneratedScene[],
-    planImage: string,
+    plans: LevelPlan[],
     style: string,
     language: Language,
     theme: ColorTheme
 ): Promise<string[]> {
     const slideGenerators = [
         (ctx: CanvasRenderingContext2D) => drawTitleSlide(ctx, text, style, theme, scenes),
-        (ctx: CanvasRenderingContext2D) => drawConceptSlide(ctx, text, planImage, theme),
+        ...plans.map(plan => (ctx: CanvasRenderingContext2D) => drawConceptSlide(ctx, text, plan, plans.length > 1, theme)),
         ...scenes.map((scene, i) => (ctx: CanvasRenderingContext2D) => drawViewpointSlide(ctx, scene, text.viewpointDetails[i], theme)),
         (ctx: CanvasRenderingContext2D) => drawConclusionSlide(ctx, text, scenes, theme),
     ];
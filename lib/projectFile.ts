@@ -0,0 +1,465 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import JSZip from 'jszip';
+import type { GeneratedScene, ScenePoint } from '../components/Step3SceneGeneration';
+import type { DesignBrief, PresentationText } from '../services/geminiService';
+import type { Level } from './levels';
+import { lightingFromLegacyMode } from './lighting';
+import type { PlanScale } from './planScale';
+import type { RenderingVersion } from './renderingVersions';
+import type { StylePreset } from './styleLibrary';
+
+export type WizardStep = 'step1' | 'step2' | 'step3' | 'step4' | 'step5';
+
+export const PROJECT_FILE_EXTENSION = '.floorplan';
+const PROJECT_FORMAT = 'floorplan';
+// Version 2 moved the plan, rendering and viewpoints into a list of levels.
+// Version 3 stores viewpoints as fractions of the plan's size instead of screen pixels.
+// Version 4 replaces the day/dusk/night mode and Kelvin value of scenes with a lighting preset.
+// Version 5 replaces the list of earlier renderings of each level with a tree of rendering versions.
+const PROJECT_VERSION = 5;
+// Before version 3, viewpoints were in CSS pixels of the Step 3 plan, which filled its
+// 768px-wide container less the 2px border on each side.
+const LEGACY_VIEWPOINT_DISPLAY_WIDTH = 764;
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Everything needed to restore the wizard exactly where it was left.
+ */
+export interface ProjectState {
+    step: WizardStep;
+    levels: Level[];
+    activeLevelId: string;
+    style: string;
+    // The library preset the style was taken from, copied so the project renders the same if the library changes.
+    stylePreset: StylePreset | null;
+    // A fuller description of the style, e.g. from analysing the mood board.
+    styleDescription: string;
+    // Reference images from the client, attached to every scene generation.
+    moodBoard: string[];
+    presentationText: PresentationText | null;
+}
+
+type StoredScene = Omit<GeneratedScene, 'url' | 'originalUrl' | 'isLoading'> & {
+    image: string | null;
+    originalImage: string | null;
+};
+
+/**
+ * The lighting fields scenes and viewpoint overrides had before version 4.
+ */
+interface LegacyLighting {
+    mode?: 'day' | 'dusk' | 'night';
+    lightingMode?: 'day' | 'dusk' | 'night';
+    temperature?: number;
+}
+
+type StoredRenderingVersion = Omit<RenderingVersion, 'url' | 'mask'> & {
+    image: string;
+    mask?: string;
+};
+
+// Mood-board images are referenced by their path inside the bundle, like all other images.
+type StoredStylePreset = Omit<StylePreset, 'moodBoard'> & {
+    moodBoard: string[];
+};
+
+interface StoredLevel {
+    id: string;
+    name: string;
+    sourceImage: string | null;
+    uploadedImage: string | null;
+    renderedImage: string | null;
+    planScale: PlanScale | null;
+    // Missing from projects saved before the north arrow could be set.
+    northHeading?: number;
+    renderingVersions: StoredRenderingVersion[];
+    finalVersionId: string | null;
+    // Before version 5, the renderings that preceded the current one, oldest first.
+    imageHistory?: { image: string; timestamp: number }[];
+    scenePoints: ScenePoint[];
+    scenes: StoredScene[];
+    // Missing from projects saved before consistency mode.
+    designBrief?: DesignBrief | null;
+}
+
+/**
+ * The JSON description of a project. Images are referenced by their path inside the bundle.
+ */
+export interface ProjectManifest {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string;
+    step: WizardStep;
+    levels: StoredLevel[];
+    activeLevelId: string;
+    style: string;
+    // Missing from projects saved before the style library.
+    stylePreset?: StoredStylePreset | null;
+    // Missing from projects saved before mood boards.
+    styleDescription?: string;
+    moodBoard?: string[];
+    presentationText: PresentationText | null;
+}
+
+/**
+ * The manifest layout of version 1, when a project had a single plan.
+ */
+interface ProjectManifestV1 {
+    format: typeof PROJECT_FORMAT;
+    version: 1;
+    savedAt: string;
+    step: WizardStep;
+    sourceImage?: string | null;
+    uploadedImage: string | null;
+    renderedImage: string | null;
+    planScale?: PlanScale | null;
+    imageHistory: { image: string; timestamp: number }[];
+    style: string;
+    scenePoints: ScenePoint[];
+    scenes: StoredScene[];
+    presentationText: PresentationText | null;
+}
+
+const SINGLE_LEVEL_ID = 'level-1';
+
+/**
+ * Upgrades a manifest written by an earlier version of the app to the current layout.
+ */
+function migrateManifest(manifest: ProjectManifest | ProjectManifestV1): ProjectManifest {
+    if (manifest.version >= 2) {
+        return manifest as ProjectManifest;
+    }
+    const v1 = manifest as ProjectManifestV1;
+    return {
+        format: v1.format,
+        // Only the layout changes here; the viewpoints are converted once the images are loaded.
+        version: 2,
+        savedAt: v1.savedAt,
+        step: v1.step,
+        levels: [{
+            id: SINGLE_LEVEL_ID,
+            name: '1F',
+            sourceImage: v1.sourceImage ?? v1.uploadedImage,
+            uploadedImage: v1.uploadedImage,
+            renderedImage: v1.renderedImage,
+            planScale: v1.planScale ?? null,
+            renderingVersions: [],
+            finalVersionId: null,
+            imageHistory: v1.imageHistory,
+            scenePoints: v1.scenePoints,
+            scenes: v1.scenes,
+        }],
+        activeLevelId: SINGLE_LEVEL_ID,
+        style: v1.style,
+        presentationText: v1.presentationText,
+    };
+}
+
+export interface SerializedProject {
+    manifest: ProjectManifest;
+    images: Record<string, Blob>;
+}
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+function mimeTypeFromPath(path: string): string {
+    const extension = path.split('.').pop()?.toLowerCase();
+    const entry = Object.entries(EXTENSION_BY_MIME).find(([, ext]) => ext === extension);
+    return entry ? entry[0] : 'image/png';
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Splits a project into a JSON manifest and a flat map of image blobs, de-duplicating images
+ * that appear in several places (e.g. a scene whose url still equals its originalUrl).
+ * @param state The wizard state to serialize.
+ * @returns The manifest and the images it references, keyed by path.
+ */
+export async function serializeProject(state: ProjectState): Promise<SerializedProject> {
+    const images: Record<string, Blob> = {};
+    const pathsByUrl = new Map<string, string>();
+
+    const addImage = async (url: string): Promise<string | null> => {
+        if (!url) return null;
+        const existingPath = pathsByUrl.get(url);
+        if (existingPath) return existingPath;
+
+        const blob = await (await fetch(url)).blob();
+        const path = `images/${pathsByUrl.size + 1}.${EXTENSION_BY_MIME[blob.type] || 'png'}`;
+        images[path] = blob;
+        pathsByUrl.set(url, path);
+        return path;
+    };
+
+    const levels: StoredLevel[] = [];
+    for (const level of state.levels) {
+        const renderingVersions: StoredRenderingVersion[] = [];
+        for (const { url, mask, ...version } of level.renderingVersions) {
+            const image = await addImage(url);
+            if (image) renderingVersions.push({ ...version, image, mask: mask ? await addImage(mask) ?? undefined : undefined });
+        }
+
+        const scenes: StoredScene[] = [];
+        for (const { url, originalUrl, isLoading, ...scene } of level.generatedScenes) {
+            scenes.push({ ...scene, image: await addImage(url), originalImage: await addImage(originalUrl) });
+        }
+
+        levels.push({
+            id: level.id,
+            name: level.name,
+            sourceImage: await addImage(level.sourceImage),
+            uploadedImage: await addImage(level.uploadedImage),
+            renderedImage: await addImage(level.renderedImage),
+            planScale: level.planScale,
+            northHeading: level.northHeading,
+            renderingVersions,
+            finalVersionId: level.finalVersionId,
+            scenePoints: level.scenePoints,
+            scenes,
+            designBrief: level.designBrief,
+        });
+    }
+
+    const addImages = async (urls: string[]): Promise<string[]> => {
+        const paths: string[] = [];
+        for (const url of urls) {
+            const path = await addImage(url);
+            if (path) paths.push(path);
+        }
+        return paths;
+    };
+
+    const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: new Date().toISOString(),
+        step: state.step,
+        levels,
+        activeLevelId: state.activeLevelId,
+        style: state.style,
+        stylePreset: state.stylePreset ? { ...state.stylePreset, moodBoard: await addImages(state.stylePreset.moodBoard) } : null,
+        styleDescription: state.styleDescription,
+        moodBoard: await addImages(state.moodBoard),
+        presentationText: state.presentationText,
+    };
+
+    return { manifest, images };
+}
+
+/**
+ * Projects saved before viewpoints could be edited matched scenes to viewpoints by position.
+ * Gives those viewpoints ids and links each scene to the viewpoint at its index.
+ */
+function linkLegacyViewpoints(points: ScenePoint[], scenes: GeneratedScene[]): Pick<Level, 'scenePoints' | 'generatedScenes'> {
+    const scenePoints = points.map(point => point.id ? point : { ...point, id: crypto.randomUUID() });
+    const generatedScenes = scenes.map((scene, index) =>
+        scene.pointId ? scene : { ...scene, pointId: scenePoints[index]?.id ?? crypto.randomUUID() }
+    );
+    return { scenePoints, generatedScenes };
+}
+
+/**
+ * Converts viewpoints saved in screen pixels to fractions of the plan's size, assuming the plan
+ * was shown at the usual full width.
+ * @param points The viewpoints as saved.
+ * @param planImage The rendered plan they were placed on.
+ */
+async function normalizeLegacyViewpoints(points: ScenePoint[], planImage: Blob | undefined): Promise<ScenePoint[]> {
+    if (points.length === 0 || !planImage) return points;
+    const bitmap = await createImageBitmap(planImage);
+    const displayHeight = LEGACY_VIEWPOINT_DISPLAY_WIDTH * bitmap.height / bitmap.width;
+    bitmap.close();
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+    return points.map(point => ({
+        ...point,
+        x: clamp(point.x / LEGACY_VIEWPOINT_DISPLAY_WIDTH),
+        y: clamp(point.y / displayHeight),
+    }));
+}
+
+/**
+ * Converts the day/dusk/night lighting of scenes and viewpoint overrides saved before version 4 to lighting presets.
+ */
+function migrateLegacyLighting(level: StoredLevel): StoredLevel {
+    return {
+        ...level,
+        scenePoints: level.scenePoints.map(point => {
+            const { lightingMode, temperature, ...rest } = point as ScenePoint & LegacyLighting;
+            return lightingMode || temperature ? { ...rest, lighting: lightingFromLegacyMode(lightingMode, temperature) } : rest;
+        }),
+        scenes: level.scenes.map(scene => {
+            const { mode, temperature, ...rest } = scene as StoredScene & LegacyLighting;
+            return { ...rest, lighting: lightingFromLegacyMode(mode, temperature) };
+        }),
+    };
+}
+
+/**
+ * Turns the flat rendering history saved before version 5 into a single line of versions that
+ * ends with the rendering in use, which becomes the final version.
+ * @param savedAt When the project was saved, used as the time of the rendering in use.
+ */
+function migrateImageHistory(level: StoredLevel, savedAt: number): StoredLevel {
+    const { imageHistory = [], ...rest } = level;
+    const entries = level.renderedImage ? [...imageHistory, { image: level.renderedImage, timestamp: savedAt }] : imageHistory;
+    const renderingVersions: StoredRenderingVersion[] = [];
+    entries.forEach((entry, index) => {
+        renderingVersions.push({
+            id: crypto.randomUUID(),
+            parentId: renderingVersions[index - 1]?.id ?? null,
+            image: entry.image,
+            // What each edit was is not known, only that it followed the one before.
+            kind: index === 0 ? 'initial' : 'correction',
+            timestamp: entry.timestamp,
+        });
+    });
+    return {
+        ...rest,
+        renderingVersions,
+        finalVersionId: level.renderedImage ? renderingVersions[renderingVersions.length - 1].id : null,
+    };
+}
+
+/**
+ * Rebuilds wizard state from a manifest and its images. Scenes that were still generating
+ * when the project was saved are marked as failed so they can be retried.
+ * @param manifest The project manifest.
+ * @param images The images referenced by the manifest, keyed by path.
+ * @returns The restored wizard state with images as data URLs.
+ */
+export async function deserializeProject(storedManifest: ProjectManifest, images: Record<string, Blob>): Promise<ProjectState> {
+    if (storedManifest.format !== PROJECT_FORMAT) {
+        throw new Error('This file is not a floor plan project.');
+    }
+    if (storedManifest.version > PROJECT_VERSION) {
+        throw new Error(`This project was saved by a newer version of the app (format version ${storedManifest.version}).`);
+    }
+    const manifest = migrateManifest(storedManifest);
+
+    const urlsByPath = new Map<string, string>();
+    const loadImage = async (path: string | null): Promise<string> => {
+        if (!path) return '';
+        const cached = urlsByPath.get(path);
+        if (cached) return cached;
+        const blob = images[path];
+        if (!blob) {
+            throw new Error(`The project is missing the image "${path}".`);
+        }
+        const url = await blobToDataUrl(blob);
+        urlsByPath.set(path, url);
+        return url;
+    };
+
+    const levels: Level[] = [];
+    for (const storedLevel of manifest.levels) {
+        const lightingLevel = manifest.version < 4 ? migrateLegacyLighting(storedLevel) : storedLevel;
+        const level = manifest.version < 5 ? migrateImageHistory(lightingLevel, Date.parse(manifest.savedAt)) : lightingLevel;
+        const renderingVersions: RenderingVersion[] = [];
+        for (const { image, mask, ...version } of level.renderingVersions) {
+            renderingVersions.push({ ...version, url: await loadImage(image), mask: mask ? await loadImage(mask) : undefined });
+        }
+
+        const generatedScenes: GeneratedScene[] = [];
+        for (const { image, originalImage, ...scene } of level.scenes) {
+            const url = await loadImage(image);
+            generatedScenes.push({
+                ...scene,
+                url,
+                originalUrl: await loadImage(originalImage),
+                isLoading: false,
+                error: scene.error || (url ? undefined : 'Generation was interrupted before the project was saved.'),
+            });
+        }
+
+        const uploadedImage = await loadImage(level.uploadedImage);
+        levels.push({
+            id: level.id,
+            name: level.name,
+            sourceImage: level.sourceImage ? await loadImage(level.sourceImage) : uploadedImage,
+            uploadedImage,
+            renderedImage: await loadImage(level.renderedImage),
+            planScale: level.planScale,
+            northHeading: level.northHeading ?? 0,
+            renderingVersions,
+            finalVersionId: level.finalVersionId,
+            ...linkLegacyViewpoints(
+                manifest.version < 3
+                    ? await normalizeLegacyViewpoints(level.scenePoints, level.renderedImage ? images[level.renderedImage] : undefined)
+                    : level.scenePoints,
+                generatedScenes
+            ),
+            designBrief: level.designBrief ?? null,
+        });
+    }
+
+    const loadImages = async (paths: string[]): Promise<string[]> => {
+        const urls: string[] = [];
+        for (const path of paths) {
+            urls.push(await loadImage(path));
+        }
+        return urls;
+    };
+
+    return {
+        step: manifest.step,
+        levels,
+        activeLevelId: levels.some(level => level.id === manifest.activeLevelId) ? manifest.activeLevelId : levels[0]?.id ?? '',
+        style: manifest.style,
+        stylePreset: manifest.stylePreset ? { ...manifest.stylePreset, moodBoard: await loadImages(manifest.stylePreset.moodBoard) } : null,
+        styleDescription: manifest.styleDescription ?? '',
+        moodBoard: await loadImages(manifest.moodBoard ?? []),
+        presentationText: manifest.presentationText,
+    };
+}
+
+/**
+ * Packs the project into a single zip-based `.floorplan` bundle.
+ * @param state The wizard state to save.
+ * @returns A promise resolving to the bundle as a Blob.
+ */
+export async function exportProjectBundle(state: ProjectState): Promise<Blob> {
+    const { manifest, images } = await serializeProject(state);
+    const zip = new JSZip();
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+    Object.entries(images).forEach(([path, blob]) => zip.file(path, blob));
+    return zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * Reads a `.floorplan` bundle back into wizard state.
+ * @param file The bundle selected by the user.
+ * @returns A promise resolving to the restored wizard state.
+ */
+export async function importProjectBundle(file: Blob): Promise<ProjectState> {
+    const zip = await JSZip.loadAsync(file);
+    const manifestFile = zip.file(MANIFEST_FILE);
+    if (!manifestFile) {
+        throw new Error('The project file does not contain a manifest.');
+    }
+    const manifest: ProjectManifest = JSON.parse(await manifestFile.async('string'));
+
+    const images: Record<string, Blob> = {};
+    const imageFiles = zip.file(/^images\//);
+    for (const imageFile of imageFiles) {
+        const data = await imageFile.async('arraybuffer');
+        images[imageFile.name] = new Blob([data], { type: mimeTypeFromPath(imageFile.name) });
+    }
+
+    return deserializeProject(manifest, images);
+}
@@ -0,0 +1,305 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Language } from './i18n';
+import { getAllScenes } from './levels';
+import { ProjectState, SerializedProject, WizardStep, deserializeProject, serializeProject } from './projectFile';
+
+const DB_NAME = 'floorplan-wizard';
+// Version 2 added the style library, which is shared by all projects.
+const DB_VERSION = 2;
+const SUMMARY_STORE = 'projects';
+const DATA_STORE = 'projectData';
+export const STYLE_STORE = 'styles';
+
+// Autosave is skipped once the browser reports less than this fraction of the quota is free.
+const QUOTA_SAFETY_MARGIN = 0.1;
+
+const THUMBNAIL_SIZE = 240;
+
+/**
+ * Small previews of the project's key images, stored with the summary so the dashboard
+ * never has to load full-resolution payloads.
+ */
+export interface ProjectThumbnails {
+    plan?: string;
+    rendering?: string;
+    scene?: string;
+}
+
+/**
+ * The lightweight record shown in the project dashboard. The heavy payload lives in a separate store.
+ */
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    step: WizardStep;
+    style: string;
+    language: Language;
+    sizeBytes: number;
+    archived: boolean;
+    thumbnails: ProjectThumbnails;
+}
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+                    db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(DATA_STORE)) {
+                    db.createObjectStore(DATA_STORE);
+                }
+                if (!db.objectStoreNames.contains(STYLE_STORE)) {
+                    db.createObjectStore(STYLE_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Fills in fields that were added after the first version of the store.
+ */
+function normalizeSummary(summary: Partial<ProjectSummary> & Pick<ProjectSummary, 'id' | 'updatedAt'>): ProjectSummary {
+    return {
+        name: '',
+        createdAt: summary.updatedAt,
+        step: 'step1',
+        style: '',
+        language: 'zh',
+        sizeBytes: 0,
+        archived: false,
+        thumbnails: {},
+        ...summary,
+    };
+}
+
+const thumbnailCache = new Map<string, string>();
+
+/**
+ * Scales an image down to a small JPEG preview. Results are cached because autosave
+ * regenerates thumbnails for the same images on every change.
+ */
+async function createThumbnail(src: string): Promise<string | undefined> {
+    if (!src) return undefined;
+    const cached = thumbnailCache.get(src);
+    if (cached) return cached;
+
+    const img = new Image();
+    await new Promise((resolve, reject) => {
+        img.onload = resolve;
+        img.onerror = reject;
+        img.src = src;
+    });
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return undefined;
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const thumbnail = canvas.toDataURL('image/jpeg', 0.7);
+
+    // Only keep the thumbnails of the images currently in play.
+    if (thumbnailCache.size > 16) thumbnailCache.clear();
+    thumbnailCache.set(src, thumbnail);
+    return thumbnail;
+}
+
+async function getSummary(db: IDBDatabase, id: string): Promise<ProjectSummary | null> {
+    const transaction = db.transaction(SUMMARY_STORE, 'readonly');
+    const summary = await requestToPromise(transaction.objectStore(SUMMARY_STORE).get(id));
+    return summary ? normalizeSummary(summary) : null;
+}
+
+async function putSummary(db: IDBDatabase, summary: ProjectSummary): Promise<void> {
+    const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    await transactionDone(transaction);
+}
+
+/**
+ * Generates an id for a new project.
+ */
+export function createProjectId(): string {
+    return crypto.randomUUID();
+}
+
+/**
+ * Reports how much of the browser's storage quota is in use, if the browser exposes it.
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+}
+
+/**
+ * Checks whether `additionalBytes` more can be stored while leaving a safety margin free.
+ */
+export async function hasStorageRoomFor(additionalBytes: number): Promise<boolean> {
+    const estimate = await getStorageEstimate();
+    if (!estimate) return true;
+    return estimate.usage + additionalBytes <= estimate.quota * (1 - QUOTA_SAFETY_MARGIN);
+}
+
+/**
+ * Persists the wizard state under the given id, replacing any earlier save.
+ * The project's name, creation time and archive flag are kept from the earlier save.
+ * @param id The project id.
+ * @param state The wizard state to store.
+ * @param language The interface language, restored together with the project.
+ * @param defaultName The name to use if this is the project's first save.
+ * @returns The stored summary, or null if there was not enough storage space.
+ */
+export async function saveProject(id: string, state: ProjectState, language: Language, defaultName: string): Promise<ProjectSummary | null> {
+    const serialized = await serializeProject(state);
+    const sizeBytes = Object.values(serialized.images).reduce((total, blob) => total + blob.size, 0);
+
+    const db = await openDatabase();
+    const existing = await getSummary(db, id);
+    // The earlier save of this project is replaced, so only the growth needs to fit.
+    if (!(await hasStorageRoomFor(sizeBytes - (existing?.sizeBytes ?? 0)))) {
+        return null;
+    }
+
+    const now = Date.now();
+    const summary: ProjectSummary = {
+        id,
+        name: existing?.name || defaultName,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        step: state.step,
+        style: state.style,
+        language,
+        sizeBytes,
+        archived: existing?.archived ?? false,
+        thumbnails: {
+            plan: await createThumbnail(state.levels.find(level => level.uploadedImage)?.uploadedImage || ''),
+            rendering: await createThumbnail(state.levels.find(level => level.renderedImage)?.renderedImage || ''),
+            scene: await createThumbnail(getAllScenes(state.levels).find(scene => scene.url)?.url || ''),
+        },
+    };
+
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    transaction.objectStore(DATA_STORE).put(serialized, id);
+    await transactionDone(transaction);
+    return summary;
+}
+
+/**
+ * Loads a stored project back into wizard state.
+ * @param id The project id.
+ * @returns The restored wizard state.
+ */
+export async function loadProject(id: string): Promise<ProjectState> {
+    const db = await openDatabase();
+    const transaction = db.transaction(DATA_STORE, 'readonly');
+    const serialized: SerializedProject | undefined = await requestToPromise(transaction.objectStore(DATA_STORE).get(id));
+    if (!serialized) {
+        throw new Error('The project could not be found.');
+    }
+    return deserializeProject(serialized.manifest, serialized.images);
+}
+
+/**
+ * Lists stored projects, most recently updated first.
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(SUMMARY_STORE, 'readonly');
+    const summaries: ProjectSummary[] = await requestToPromise(transaction.objectStore(SUMMARY_STORE).getAll());
+    return summaries.map(normalizeSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Gives a stored project a new name.
+ */
+export async function renameProject(id: string, name: string): Promise<void> {
+    const db = await openDatabase();
+    const summary = await getSummary(db, id);
+    if (!summary) throw new Error('The project could not be found.');
+    await putSummary(db, { ...summary, name });
+}
+
+/**
+ * Moves a project into or out of the archive. Archived projects are hidden from the dashboard by default.
+ */
+export async function setProjectArchived(id: string, archived: boolean): Promise<void> {
+    const db = await openDatabase();
+    const summary = await getSummary(db, id);
+    if (!summary) throw new Error('The project could not be found.');
+    await putSummary(db, { ...summary, archived });
+}
+
+/**
+ * Copies a stored project, including all of its images, under a new id.
+ * @param id The project to copy.
+ * @param name The name of the copy.
+ * @returns The summary of the copy.
+ */
+export async function duplicateProject(id: string, name: string): Promise<ProjectSummary> {
+    const db = await openDatabase();
+    const summary = await getSummary(db, id);
+    const data: SerializedProject | undefined = await requestToPromise(db.transaction(DATA_STORE, 'readonly').objectStore(DATA_STORE).get(id));
+    if (!summary || !data) throw new Error('The project could not be found.');
+
+    if (!(await hasStorageRoomFor(summary.sizeBytes))) {
+        throw new Error('There is not enough storage space to duplicate this project.');
+    }
+
+    const now = Date.now();
+    const copy: ProjectSummary = { ...summary, id: createProjectId(), name, createdAt: now, updatedAt: now, archived: false };
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).put(copy);
+    transaction.objectStore(DATA_STORE).put(data, copy.id);
+    await transactionDone(transaction);
+    return copy;
+}
+
+/**
+ * Removes a stored project and its images.
+ */
+export async function deleteProject(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await transactionDone(transaction);
+}
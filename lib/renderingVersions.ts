@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { getTranslation } from './i18n';
+
+export type RenderingVersionKind = 'initial' | 'correction' | 'autoMaterial' | 'dollhouse';
+
+export const VERSION_KIND_LABEL_KEYS: Record<RenderingVersionKind, Parameters<typeof getTranslation>[0]> = {
+    initial: 'versionInitial',
+    correction: 'versionCorrection',
+    autoMaterial: 'versionAutoMaterial',
+    dollhouse: 'versionDollhouse',
+};
+
+/**
+ * One generated rendering of a plan. Versions form a tree: every edit is a child of the
+ * version it was made from, and the candidates of a multi-image batch are siblings.
+ */
+export interface RenderingVersion {
+    id: string;
+    /** The version this one was generated from, or null for a rendering of the uploaded plan. */
+    parentId: string | null;
+    url: string;
+    kind: RenderingVersionKind;
+    /** The correction the user asked for; the built-in auto-material and dollhouse prompts are not kept. */
+    prompt?: string;
+    /** The area the edit was limited to, as a black-and-white PNG data URL. */
+    mask?: string;
+    timestamp: number;
+}
+
+/**
+ * Where a version is drawn in the version graph: generations run left to right, branches top to bottom.
+ */
+export interface VersionPosition {
+    column: number;
+    row: number;
+}
+
+export function createRenderingVersion(
+    url: string,
+    parentId: string | null,
+    details: Pick<RenderingVersion, 'kind' | 'prompt' | 'mask'>
+): RenderingVersion {
+    return {
+        id: crypto.randomUUID(),
+        parentId,
+        url,
+        ...details,
+        timestamp: Date.now(),
+    };
+}
+
+/**
+ * Lists the children of a version, oldest first. Pass null for the versions made from the uploaded plan.
+ */
+export function getChildVersions(versions: RenderingVersion[], parentId: string | null): RenderingVersion[] {
+    return versions
+        .filter(version => version.parentId === parentId)
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Places every version in the graph. Each version shares a row with its oldest child, so the
+ * first line of edits reads as a straight timeline and every later branch opens a row below it.
+ * Versions whose parent is missing are treated as roots.
+ */
+export function layoutVersionTree(versions: RenderingVersion[]): Map<string, VersionPosition> {
+    const ids = new Set<string>(versions.map(version => version.id));
+    const positions = new Map<string, VersionPosition>();
+    let nextRow = 0;
+
+    const place = (version: RenderingVersion, column: number) => {
+        const children = getChildVersions(versions, version.id);
+        if (children.length === 0) {
+            positions.set(version.id, { column, row: nextRow++ });
+            return;
+        }
+        const row = nextRow;
+        children.forEach(child => place(child, column + 1));
+        positions.set(version.id, { column, row });
+    };
+
+    versions
+        .filter(version => version.parentId === null || !ids.has(version.parentId))
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .forEach(root => place(root, 0));
+    return positions;
+}
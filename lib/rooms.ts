@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { getTranslation } from './i18n';
+
+export const ROOM_TYPES = ['living', 'dining', 'kitchen', 'bedroom', 'bathroom', 'study', 'entrance', 'balcony'] as const;
+
+export type RoomType = typeof ROOM_TYPES[number];
+
+interface RoomTypeDetails {
+    /** The English room name used in prompts. */
+    name: string;
+    /** What a room of this type is expected to contain, so the model does not furnish it as something else. */
+    furnishings: string;
+    labelKey: Parameters<typeof getTranslation>[0];
+}
+
+export const ROOM_TYPE_DETAILS: Record<RoomType, RoomTypeDetails> = {
+    living: { name: 'living room', furnishings: 'a sofa, armchairs, a coffee table and a TV or media wall', labelKey: 'roomLiving' },
+    dining: { name: 'dining room', furnishings: 'a dining table with chairs and a pendant light above it', labelKey: 'roomDining' },
+    kitchen: { name: 'kitchen', furnishings: 'cabinetry, a worktop, a sink, a hob with an extractor and kitchen appliances', labelKey: 'roomKitchen' },
+    bedroom: { name: 'bedroom', furnishings: 'a bed with bedside tables, a wardrobe and soft lighting', labelKey: 'roomBedroom' },
+    bathroom: { name: 'bathroom', furnishings: 'a washbasin, a toilet, a shower or bathtub and tiled surfaces', labelKey: 'roomBathroom' },
+    study: { name: 'study', furnishings: 'a desk with an office chair, shelving and a task lamp', labelKey: 'roomStudy' },
+    entrance: { name: 'entrance hall', furnishings: 'the front door, a shoe cabinet or console and a mirror', labelKey: 'roomEntrance' },
+    balcony: { name: 'balcony', furnishings: 'outdoor flooring, a railing, plants and outdoor seating', labelKey: 'roomBalcony' },
+};
+
+export function isRoomType(value: unknown): value is RoomType {
+    return ROOM_TYPES.includes(value as RoomType);
+}
+
+/**
+ * Tests whether a point lies inside a polygon, using the even-odd rule.
+ * Both are given in the same coordinate space, e.g. fractions of the plan.
+ */
+export function isPointInPolygon(point: { x: number; y: number }, polygon: { x: number; y: number }[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { getTranslation } from './i18n';
+import { STYLE_STORE, openDatabase, requestToPromise, transactionDone } from './projectStore';
+
+export const MATERIAL_SLOTS = ['floor', 'wall', 'joinery', 'fabrics'] as const;
+
+export type MaterialSlot = typeof MATERIAL_SLOTS[number];
+
+export const MATERIAL_LABEL_KEYS: Record<MaterialSlot, Parameters<typeof getTranslation>[0]> = {
+    floor: 'materialFloor',
+    wall: 'materialWall',
+    joinery: 'materialJoinery',
+    fabrics: 'materialFabrics',
+};
+
+// Mood-board images are scaled down before storing; the image model gains nothing from more.
+const MOOD_BOARD_MAX_SIZE = 1024;
+
+/**
+ * A saved interior style, reused across projects so a brand's house style renders the same every time.
+ */
+export interface StylePreset {
+    id: string;
+    name: string;
+    description: string;
+    /** Hex colours, e.g. "#d9cbb5". */
+    palette: string[];
+    /** Free-text material descriptions, e.g. "wide-plank white oak" for the floor. */
+    materials: Record<MaterialSlot, string>;
+    /** Reference images as data URLs, attached to scene generation requests. */
+    moodBoard: string[];
+    updatedAt: number;
+}
+
+/**
+ * Creates an empty preset, optionally named after the style currently in use.
+ */
+export function createStylePreset(name = ''): StylePreset {
+    return {
+        id: crypto.randomUUID(),
+        name,
+        description: '',
+        palette: [],
+        materials: { floor: '', wall: '', joinery: '', fabrics: '' },
+        moodBoard: [],
+        updatedAt: Date.now(),
+    };
+}
+
+/**
+ * Lists the saved presets in alphabetical order.
+ */
+export async function listStylePresets(): Promise<StylePreset[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STYLE_STORE, 'readonly');
+    const presets: StylePreset[] = await requestToPromise(transaction.objectStore(STYLE_STORE).getAll());
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Stores a preset, replacing an earlier version with the same id.
+ * @returns The preset as stored.
+ */
+export async function saveStylePreset(preset: StylePreset): Promise<StylePreset> {
+    const stored = { ...preset, updatedAt: Date.now() };
+    const db = await openDatabase();
+    const transaction = db.transaction(STYLE_STORE, 'readwrite');
+    transaction.objectStore(STYLE_STORE).put(stored);
+    await transactionDone(transaction);
+    return stored;
+}
+
+/**
+ * Removes a preset from the library. Projects that use it keep their own copy.
+ */
+export async function deleteStylePreset(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STYLE_STORE, 'readwrite');
+    transaction.objectStore(STYLE_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Reads an uploaded mood-board image as a JPEG data URL no larger than MOOD_BOARD_MAX_SIZE.
+ */
+export async function readMoodBoardImage(file: File): Promise<string> {
+    const url = URL.createObjectURL(file);
+    try {
+        const img = new Image();
+        await new Promise((resolve, reject) => {
+            img.onload = resolve;
+            img.onerror = reject;
+            img.src = url;
+        });
+        const scale = Math.min(1, MOOD_BOARD_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context');
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/jpeg', 0.85);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
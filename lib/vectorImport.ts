@@ -0,0 +1,447 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A named group of drawing elements that can be shown or hidden before rasterising.
+ */
+export interface VectorLayer {
+    name: string;
+    elementCount: number;
+}
+
+/**
+ * A vector plan normalised to SVG. Every drawable element carries a `data-layer` attribute
+ * naming the layer it belongs to.
+ */
+export interface VectorDrawing {
+    svg: string;
+    layers: VectorLayer[];
+    width: number;
+    height: number;
+}
+
+export const VECTOR_RESOLUTION_OPTIONS = [1024, 2048, 3072, 4096] as const;
+export const DEFAULT_VECTOR_RESOLUTION = 2048;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const UNGROUPED_LAYER = 'Ungrouped';
+const NON_DRAWING_TAGS = new Set(['defs', 'style', 'title', 'desc', 'metadata', 'script', 'sodipodi:namedview']);
+
+// Annotation layers are hidden by default because Step 2 would otherwise have to remove them again.
+const ANNOTATION_LAYER_PATTERN = /dim|anno|text|txt|label|標註|尺寸|文字/i;
+
+// Nested block references deeper than this are almost certainly recursive.
+const MAX_BLOCK_DEPTH = 8;
+
+/**
+ * Checks whether a selected file is a DXF or SVG drawing.
+ */
+export function isVectorFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return file.type === 'image/svg+xml' || name.endsWith('.svg') || name.endsWith('.dxf');
+}
+
+/**
+ * Checks whether a layer looks like dimensions or text that should be hidden by default.
+ */
+export function isAnnotationLayer(name: string): boolean {
+    return ANNOTATION_LAYER_PATTERN.test(name);
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function parseLength(value: string | null): number {
+    const parsed = parseFloat(value || '');
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function countLayers(root: Element): VectorLayer[] {
+    const counts = new Map<string, number>();
+    root.querySelectorAll('[data-layer]').forEach(element => {
+        const name = element.getAttribute('data-layer')!;
+        counts.set(name, (counts.get(name) ?? 0) + Math.max(1, element.getElementsByTagName('*').length));
+    });
+    return Array.from(counts, ([name, elementCount]) => ({ name, elementCount }));
+}
+
+/**
+ * Reads an SVG file, treating its top-level groups as layers. A single wrapping group
+ * (as written by most CAD exporters) is looked through.
+ */
+function parseSvgDrawing(text: string): VectorDrawing {
+    const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const svg = doc.documentElement;
+    if (svg.nodeName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The file is not a valid SVG drawing.');
+    }
+
+    let viewBox = svg.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+    if (!viewBox || viewBox.length !== 4 || viewBox.some(n => !Number.isFinite(n))) {
+        const width = parseLength(svg.getAttribute('width'));
+        const height = parseLength(svg.getAttribute('height'));
+        if (!width || !height) {
+            throw new Error('The SVG drawing has no size information.');
+        }
+        viewBox = [0, 0, width, height];
+        svg.setAttribute('viewBox', viewBox.join(' '));
+    }
+
+    const drawingChildren = (parent: Element) => Array.from(parent.children).filter(child => !NON_DRAWING_TAGS.has(child.nodeName));
+    let layerParent: Element = svg;
+    let children = drawingChildren(layerParent);
+    while (children.length === 1 && children[0].nodeName === 'g') {
+        layerParent = children[0];
+        children = drawingChildren(layerParent);
+    }
+
+    children.forEach((child, index) => {
+        const name = child.nodeName === 'g'
+            ? child.getAttribute('inkscape:label') || child.getAttribute('data-name') || child.getAttribute('id') || `Layer ${index + 1}`
+            : UNGROUPED_LAYER;
+        child.setAttribute('data-layer', name);
+    });
+
+    return {
+        svg: new XMLSerializer().serializeToString(svg),
+        layers: countLayers(svg),
+        width: viewBox[2],
+        height: viewBox[3],
+    };
+}
+
+type DxfPair = [number, string];
+
+interface DxfEntity {
+    type: string;
+    pairs: DxfPair[];
+    vertices: DxfEntity[];
+}
+
+interface DxfBlock {
+    baseX: number;
+    baseY: number;
+    entities: DxfEntity[];
+}
+
+function getValue(entity: DxfEntity, code: number): string | undefined {
+    return entity.pairs.find(([c]) => c === code)?.[1];
+}
+
+function getNumber(entity: DxfEntity, code: number, fallback = 0): number {
+    const value = parseFloat(getValue(entity, code) ?? '');
+    return Number.isFinite(value) ? value : fallback;
+}
+
+function getPoints(entity: DxfEntity): [number, number][] {
+    const points: [number, number][] = [];
+    entity.pairs.forEach(([code, value]) => {
+        if (code === 10) points.push([parseFloat(value), 0]);
+        if (code === 20 && points.length > 0) points[points.length - 1][1] = parseFloat(value);
+    });
+    return points;
+}
+
+/**
+ * Splits a DXF section into entities. POLYLINE vertices are attached to their polyline.
+ */
+function readEntities(pairs: DxfPair[]): DxfEntity[] {
+    const entities: DxfEntity[] = [];
+    let current: DxfEntity | null = null;
+    let polyline: DxfEntity | null = null;
+
+    for (const [code, value] of pairs) {
+        if (code !== 0) {
+            current?.pairs.push([code, value]);
+            continue;
+        }
+        current = { type: value, pairs: [], vertices: [] };
+        if (value === 'VERTEX' && polyline) {
+            polyline.vertices.push(current);
+        } else if (value === 'SEQEND') {
+            polyline = null;
+        } else {
+            entities.push(current);
+            polyline = value === 'POLYLINE' ? current : null;
+        }
+    }
+    return entities;
+}
+
+function readSections(text: string): Map<string, DxfPair[]> {
+    const lines = text.split(/\r?\n/);
+    const sections = new Map<string, DxfPair[]>();
+    let sectionName: string | null = null;
+    let sectionPairs: DxfPair[] = [];
+
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = parseInt(lines[i].trim(), 10);
+        const value = lines[i + 1].trim();
+        if (code === 0 && value === 'SECTION') {
+            sectionName = null;
+            sectionPairs = [];
+        } else if (code === 2 && sectionName === null) {
+            sectionName = value;
+        } else if (code === 0 && value === 'ENDSEC') {
+            if (sectionName) sections.set(sectionName, sectionPairs);
+            sectionName = null;
+        } else if (sectionName) {
+            sectionPairs.push([code, value]);
+        }
+    }
+    return sections;
+}
+
+function readBlocks(pairs: DxfPair[]): Map<string, DxfBlock> {
+    const blocks = new Map<string, DxfBlock>();
+    let block: DxfBlock | null = null;
+    for (const entity of readEntities(pairs)) {
+        if (entity.type === 'BLOCK') {
+            block = { baseX: getNumber(entity, 10), baseY: getNumber(entity, 20), entities: [] };
+            blocks.set(getValue(entity, 2) ?? '', block);
+        } else if (entity.type === 'ENDBLK') {
+            block = null;
+        } else {
+            block?.entities.push(entity);
+        }
+    }
+    return blocks;
+}
+
+function readExtents(pairs: DxfPair[] | undefined): [number, number, number, number] | null {
+    if (!pairs) return null;
+    const readPoint = (variable: string) => {
+        const index = pairs.findIndex(([code, value]) => code === 9 && value === variable);
+        if (index < 0) return null;
+        const x = pairs.slice(index + 1).find(([code]) => code === 10);
+        const y = pairs.slice(index + 1).find(([code]) => code === 20);
+        return x && y ? [parseFloat(x[1]), parseFloat(y[1])] : null;
+    };
+    const min = readPoint('$EXTMIN');
+    const max = readPoint('$EXTMAX');
+    if (!min || !max || min.some(n => !Number.isFinite(n)) || max.some(n => !Number.isFinite(n)) || max[0] <= min[0] || max[1] <= min[1]) {
+        return null;
+    }
+    return [min[0], min[1], max[0], max[1]];
+}
+
+function cleanMText(value: string): string {
+    return value
+        .replace(/\\P/g, ' ')
+        .replace(/\\[A-Za-z][^;\\]*;/g, '')
+        .replace(/[{}]/g, '');
+}
+
+/**
+ * Converts one DXF entity to SVG markup in drawing coordinates (y axis pointing up).
+ * Polyline bulges are drawn as straight segments; hatches and points are skipped.
+ */
+function entityToSvg(entity: DxfEntity, blocks: Map<string, DxfBlock>, depth: number): string {
+    switch (entity.type) {
+        case 'LINE':
+            return `<line x1="${getNumber(entity, 10)}" y1="${getNumber(entity, 20)}" x2="${getNumber(entity, 11)}" y2="${getNumber(entity, 21)}"/>`;
+        case 'LWPOLYLINE':
+        case 'POLYLINE': {
+            const points = entity.type === 'LWPOLYLINE' ? getPoints(entity) : entity.vertices.map(vertex => [getNumber(vertex, 10), getNumber(vertex, 20)]);
+            if (points.length < 2) return '';
+            const tag = (getNumber(entity, 70) & 1) ? 'polygon' : 'polyline';
+            return `<${tag} points="${points.map(point => point.join(',')).join(' ')}"/>`;
+        }
+        case 'CIRCLE':
+            return `<circle cx="${getNumber(entity, 10)}" cy="${getNumber(entity, 20)}" r="${getNumber(entity, 40)}"/>`;
+        case 'ARC': {
+            const cx = getNumber(entity, 10);
+            const cy = getNumber(entity, 20);
+            const r = getNumber(entity, 40);
+            const start = getNumber(entity, 50) * Math.PI / 180;
+            const end = getNumber(entity, 51) * Math.PI / 180;
+            const sweep = ((end - start) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI);
+            if (!r || !sweep) return '';
+            return `<path d="M ${cx + r * Math.cos(start)} ${cy + r * Math.sin(start)} A ${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${cx + r * Math.cos(end)} ${cy + r * Math.sin(end)}"/>`;
+        }
+        case 'ELLIPSE': {
+            const cx = getNumber(entity, 10);
+            const cy = getNumber(entity, 20);
+            const majorX = getNumber(entity, 11);
+            const majorY = getNumber(entity, 21);
+            const ratio = getNumber(entity, 40, 1);
+            const start = getNumber(entity, 41);
+            let end = getNumber(entity, 42, 2 * Math.PI);
+            if (end <= start) end += 2 * Math.PI;
+            const points: string[] = [];
+            for (let i = 0; i <= 64; i++) {
+                const t = start + (end - start) * i / 64;
+                const x = cx + majorX * Math.cos(t) - majorY * ratio * Math.sin(t);
+                const y = cy + majorY * Math.cos(t) + majorX * ratio * Math.sin(t);
+                points.push(`${x},${y}`);
+            }
+            return `<polyline points="${points.join(' ')}"/>`;
+        }
+        case 'TEXT':
+        case 'MTEXT': {
+            const raw = entity.type === 'MTEXT'
+                ? entity.pairs.filter(([code]) => code === 3 || code === 1).map(([, value]) => value).join('')
+                : getValue(entity, 1) ?? '';
+            const text = entity.type === 'MTEXT' ? cleanMText(raw) : raw;
+            if (!text.trim()) return '';
+            // Text is flipped back upright because the whole drawing is mirrored into SVG's y-down space.
+            return `<text transform="translate(${getNumber(entity, 10)} ${getNumber(entity, 20)}) rotate(${getNumber(entity, 50)}) scale(1 -1)" font-size="${getNumber(entity, 40, 1)}" fill="black" stroke="none">${escapeXml(text)}</text>`;
+        }
+        case 'INSERT': {
+            const block = blocks.get(getValue(entity, 2) ?? '');
+            if (!block || depth >= MAX_BLOCK_DEPTH) return '';
+            const transform = `translate(${getNumber(entity, 10)} ${getNumber(entity, 20)}) rotate(${getNumber(entity, 50)}) scale(${getNumber(entity, 41, 1)} ${getNumber(entity, 42, 1)}) translate(${-block.baseX} ${-block.baseY})`;
+            return `<g transform="${transform}">${block.entities.map(child => entityToSvg(child, blocks, depth + 1)).join('')}</g>`;
+        }
+        case 'DIMENSION': {
+            // Dimension geometry lives in an anonymous block that is already in drawing coordinates.
+            const block = blocks.get(getValue(entity, 2) ?? '');
+            if (!block || depth >= MAX_BLOCK_DEPTH) return '';
+            return `<g>${block.entities.map(child => entityToSvg(child, blocks, depth + 1)).join('')}</g>`;
+        }
+        default:
+            return '';
+    }
+}
+
+function entityExtentPoints(entity: DxfEntity): [number, number][] {
+    switch (entity.type) {
+        case 'LINE':
+            return [[getNumber(entity, 10), getNumber(entity, 20)], [getNumber(entity, 11), getNumber(entity, 21)]];
+        case 'LWPOLYLINE':
+            return getPoints(entity);
+        case 'POLYLINE':
+            return entity.vertices.map(vertex => [getNumber(vertex, 10), getNumber(vertex, 20)]);
+        case 'CIRCLE':
+        case 'ARC': {
+            const cx = getNumber(entity, 10);
+            const cy = getNumber(entity, 20);
+            const r = getNumber(entity, 40);
+            return [[cx - r, cy - r], [cx + r, cy + r]];
+        }
+        case 'DIMENSION':
+            return [];
+        default:
+            return getValue(entity, 10) !== undefined ? [[getNumber(entity, 10), getNumber(entity, 20)]] : [];
+    }
+}
+
+/**
+ * Reads an ASCII DXF file and converts its model-space entities to an SVG with one group per layer.
+ */
+function parseDxfDrawing(text: string): VectorDrawing {
+    const sections = readSections(text);
+    const entityPairs = sections.get('ENTITIES');
+    if (!entityPairs) {
+        throw new Error('The file is not a valid ASCII DXF drawing.');
+    }
+    const blocks = readBlocks(sections.get('BLOCKS') ?? []);
+    const entities = readEntities(entityPairs);
+
+    let extents = readExtents(sections.get('HEADER'));
+    if (!extents) {
+        const points = entities.flatMap(entityExtentPoints).filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y));
+        if (points.length === 0) {
+            throw new Error('The DXF drawing does not contain any supported geometry.');
+        }
+        // Reduced rather than spread into Math.min/max, which overflows the call stack on large drawings.
+        extents = points.reduce<[number, number, number, number]>(
+            ([minX, minY, maxX, maxY], [x, y]) => [Math.min(minX, x), Math.min(minY, y), Math.max(maxX, x), Math.max(maxY, y)],
+            [Infinity, Infinity, -Infinity, -Infinity]
+        );
+    }
+
+    const [minX, minY, maxX, maxY] = extents;
+    const padding = Math.max(maxX - minX, maxY - minY) * 0.02 || 1;
+    const width = maxX - minX + padding * 2;
+    const height = maxY - minY + padding * 2;
+    const strokeWidth = Math.max(width, height) / 1000;
+
+    const markupByLayer = new Map<string, string[]>();
+    for (const entity of entities) {
+        const markup = entityToSvg(entity, blocks, 0);
+        if (!markup) continue;
+        const layer = getValue(entity, 8) || '0';
+        if (!markupByLayer.has(layer)) markupByLayer.set(layer, []);
+        markupByLayer.get(layer)!.push(markup);
+    }
+
+    const layerGroups = Array.from(markupByLayer, ([layer, markup]) => `<g data-layer="${escapeXml(layer)}">${markup.join('')}</g>`).join('');
+    const svgText = `<svg xmlns="${SVG_NS}" viewBox="${minX - padding} ${-maxY - padding} ${width} ${height}">`
+        + `<g transform="scale(1 -1)" fill="none" stroke="black" stroke-width="${strokeWidth}" font-family="sans-serif">${layerGroups}</g></svg>`;
+
+    const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+    return {
+        svg: svgText,
+        layers: countLayers(doc.documentElement),
+        width,
+        height,
+    };
+}
+
+/**
+ * Reads a DXF or SVG file into a layered drawing.
+ * @param file The drawing selected by the user.
+ * @returns A promise resolving to the drawing and its layers.
+ */
+export async function loadVectorDrawing(file: File): Promise<VectorDrawing> {
+    const text = await file.text();
+    return file.name.toLowerCase().endsWith('.dxf') ? parseDxfDrawing(text) : parseSvgDrawing(text);
+}
+
+/**
+ * Produces the drawing's SVG with the given layers removed, sized so its longest side is `longSide` pixels.
+ * @param drawing The loaded drawing.
+ * @param hiddenLayers The names of the layers to leave out.
+ * @param longSide The pixel length of the drawing's longest side.
+ * @returns The filtered SVG markup.
+ */
+export function buildFilteredSvg(drawing: VectorDrawing, hiddenLayers: ReadonlySet<string>, longSide: number): string {
+    const doc = new DOMParser().parseFromString(drawing.svg, 'image/svg+xml');
+    doc.querySelectorAll('[data-layer]').forEach(element => {
+        if (hiddenLayers.has(element.getAttribute('data-layer')!)) element.remove();
+    });
+
+    const scale = longSide / Math.max(drawing.width, drawing.height);
+    doc.documentElement.setAttribute('width', String(Math.round(drawing.width * scale)));
+    doc.documentElement.setAttribute('height', String(Math.round(drawing.height * scale)));
+    return new XMLSerializer().serializeToString(doc);
+}
+
+/**
+ * Rasterises the drawing with the given layers hidden onto a white background.
+ * @param drawing The loaded drawing.
+ * @param hiddenLayers The names of the layers to leave out.
+ * @param longSide The pixel length of the image's longest side.
+ * @returns A promise resolving to a PNG data URL.
+ */
+export async function rasterizeVectorDrawing(drawing: VectorDrawing, hiddenLayers: ReadonlySet<string>, longSide: number): Promise<string> {
+    const svgUrl = URL.createObjectURL(new Blob([buildFilteredSvg(drawing, hiddenLayers, longSide)], { type: 'image/svg+xml' }));
+    try {
+        const img = new Image();
+        await new Promise((resolve, reject) => {
+            img.onload = resolve;
+            img.onerror = () => reject(new Error('The drawing could not be rendered.'));
+            img.src = svgUrl;
+        });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context');
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0);
+        return canvas.toDataURL('image/png');
+    } finally {
+        URL.revokeObjectURL(svgUrl);
+    }
+}
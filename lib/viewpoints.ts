@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const DEFAULT_FIELD_OF_VIEW = 75;
+export const MIN_FIELD_OF_VIEW = 40;
+export const MAX_FIELD_OF_VIEW = 120;
+
+const COMPASS_POINTS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+/**
+ * Wraps a heading into the range [0, 360).
+ */
+export function normalizeHeading(heading: number): number {
+    return ((heading % 360) + 360) % 360;
+}
+
+/**
+ * Computes the heading of a drag from one point to another on the plan.
+ * Headings are compass degrees: 0 points to the top of the plan and they increase clockwise.
+ */
+export function headingBetween(from: { x: number; y: number }, to: { x: number; y: number }): number {
+    return normalizeHeading(Math.atan2(to.x - from.x, from.y - to.y) * 180 / Math.PI);
+}
+
+/**
+ * Names the nearest of the eight compass points, e.g. "north-east" for 50°.
+ */
+export function compassDirection(heading: number): string {
+    return COMPASS_POINTS[Math.round(normalizeHeading(heading) / 45) % COMPASS_POINTS.length];
+}
+
+/**
+ * Draws a viewing cone from a viewpoint, as a filled wedge with an arrow along its centre line.
+ * @param ctx The canvas context to draw on.
+ * @param x The viewpoint's x position in canvas pixels.
+ * @param y The viewpoint's y position in canvas pixels.
+ * @param heading The compass heading the camera faces, in degrees.
+ * @param fov The horizontal field of view, in degrees.
+ * @param length How far the cone reaches, in canvas pixels.
+ * @param rgb The cone's colour as an "r, g, b" triplet.
+ */
+export function drawViewCone(ctx: CanvasRenderingContext2D, x: number, y: number, heading: number, fov: number, length: number, rgb = '255, 0, 0') {
+    // Canvas angles start at the positive x axis, compass headings at the top of the plan.
+    const centre = (heading - 90) * Math.PI / 180;
+    const halfFov = fov * Math.PI / 360;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.arc(x, y, length, centre - halfFov, centre + halfFov);
+    ctx.closePath();
+    ctx.fillStyle = `rgba(${rgb}, 0.25)`;
+    ctx.fill();
+    ctx.strokeStyle = `rgba(${rgb}, 0.8)`;
+    ctx.lineWidth = Math.max(2, length / 40);
+    ctx.stroke();
+
+    const tipX = x + Math.cos(centre) * length;
+    const tipY = y + Math.sin(centre) * length;
+    const headSize = length / 6;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(tipX, tipY);
+    ctx.moveTo(tipX - Math.cos(centre - 0.5) * headSize, tipY - Math.sin(centre - 0.5) * headSize);
+    ctx.lineTo(tipX, tipY);
+    ctx.lineTo(tipX - Math.cos(centre + 0.5) * headSize, tipY - Math.sin(centre + 0.5) * headSize);
+    ctx.stroke();
+    ctx.restore();
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { ImageModelProvider, ModelPart, ResponseSchema, TextGenerationOptions, TextModelProvider } from './modelProviders';
+
+const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+
+interface GeminiProviderOptions {
+    apiKey: string;
+    imageModel?: string;
+    textModel?: string;
+}
+
+/**
+ * Converts a provider-neutral response schema into the Gemini SDK's schema format.
+ */
+function toGeminiSchema(schema: ResponseSchema): Schema {
+    const geminiSchema: Schema = {
+        type: schema.type.toUpperCase() as Type,
+    };
+    if (schema.description) geminiSchema.description = schema.description;
+    if (schema.enum) geminiSchema.enum = schema.enum;
+    if (schema.required) geminiSchema.required = schema.required;
+    if (schema.minItems !== undefined) geminiSchema.minItems = String(schema.minItems);
+    if (schema.maxItems !== undefined) geminiSchema.maxItems = String(schema.maxItems);
+    if (schema.items) geminiSchema.items = toGeminiSchema(schema.items);
+    if (schema.properties) {
+        geminiSchema.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        );
+    }
+    return geminiSchema;
+}
+
+/**
+ * Creates the Gemini-backed image and text providers sharing a single API client.
+ * @param options The API key and optional model overrides.
+ * @returns The image and text provider pair.
+ */
+export function createGeminiProviders(options: GeminiProviderOptions): { image: ImageModelProvider; text: TextModelProvider } {
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+    const imageModel = options.imageModel || DEFAULT_IMAGE_MODEL;
+    const textModel = options.textModel || DEFAULT_TEXT_MODEL;
+
+    const image: ImageModelProvider = {
+        id: 'gemini',
+        label: 'Google Gemini',
+        async generateImage(parts: ModelPart[]): Promise<string> {
+            // This model only supports `responseModalities`. Other configs like temperature, topP,
+            // and safetySettings are not supported.
+            const response = await ai.models.generateContent({
+                model: imageModel,
+                contents: { parts },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                },
+            });
+
+            // Check for blocked content
+            if (response.candidates?.[0]?.finishReason === 'SAFETY') {
+                throw new Error('Content was blocked by safety filters');
+            }
+
+            const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data);
+            if (imagePart?.inlineData?.data) {
+                const mimeType = imagePart.inlineData.mimeType || 'image/png';
+                return `data:${mimeType};base64,${imagePart.inlineData.data}`;
+            }
+
+            const textResponse = response.text;
+            console.error("API did not return an image. Response:", textResponse);
+            throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+        },
+    };
+
+    const text: TextModelProvider = {
+        id: 'gemini',
+        label: 'Google Gemini',
+        async generateText(parts: ModelPart[], generationOptions?: TextGenerationOptions): Promise<string> {
+            const response = await ai.models.generateContent({
+                model: textModel,
+                contents: { parts },
+                config: generationOptions?.responseSchema
+                    ? {
+                        responseMimeType: "application/json",
+                        responseSchema: toGeminiSchema(generationOptions.responseSchema),
+                    }
+                    : undefined,
+            });
+            return (response.text || '').trim();
+        },
+    };
+
+    return { image, text };
+}
@@ -2,21 +2,55 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// FIX: Added Modality to imports for use in image editing model config.
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { GenerateContentResponse, Part } from "@google/genai";
 import { GeneratedScene } from '../components/Step3SceneGeneration';
 // FIX: Corrected import path for i18n module.
 import { Language } from "../lib/i18n";
+import type { LevelPlan } from '../lib/levels';
+import { LightingPreset, TimeOfDay, Weather, hasDirectSun } from '../lib/lighting';
+import type { MaskRegionEdit, RegionEditMode } from '../lib/maskRegions';
+import { ROOM_TYPES, ROOM_TYPE_DETAILS, RoomType, isRoomType } from '../lib/rooms';
+import { PlanScale, formatLength, pixelsPerMetreForImage } from '../lib/planScale';
+import { MATERIAL_SLOTS, StylePreset } from '../lib/styleLibrary';
+import { MAX_FIELD_OF_VIEW, MIN_FIELD_OF_VIEW, compassDirection, drawViewCone, normalizeHeading } from '../lib/viewpoints';
+import { createGeminiProviders } from './geminiProvider';
+import { createMockProviders } from './mockProvider';
+import { getImageProvider, getTextProvider, registerImageProvider, registerTextProvider, setActiveProvider } from './modelProviders';
+import type { ModelPart, ResponseSchema } from './modelProviders';
 
 
 const API_KEY = process.env.API_KEY;
+const PROVIDER_STORAGE_KEY = 'floorplan.modelProvider';
+
+if (API_KEY) {
+    const gemini = createGeminiProviders({ apiKey: API_KEY });
+    registerImageProvider(gemini.image);
+    registerTextProvider(gemini.text);
+} else {
+    console.warn("API_KEY environment variable is not set; using the offline mock model provider.");
+}
+
+const mock = createMockProviders();
+registerImageProvider(mock.image);
+registerTextProvider(mock.text);
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+// An explicit MODEL_PROVIDER environment variable wins over a provider remembered from the in-app dev toggle.
+const preferredProvider = process.env.MODEL_PROVIDER || localStorage.getItem(PROVIDER_STORAGE_KEY);
+if (preferredProvider) {
+    try {
+        setActiveProvider(preferredProvider);
+    } catch (error) {
+        console.warn(`Ignoring unavailable model provider "${preferredProvider}".`, error);
+    }
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/**
+ * Switches the active model backend and remembers the choice for future visits.
+ * @param id The id of a registered provider, e.g. 'gemini' or 'mock'.
+ */
+export function selectModelProvider(id: string): void {
+    setActiveProvider(id);
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+}
 
 
 // --- Helper Functions ---
@@ -41,41 +75,20 @@ function extractDecade(prompt: string): string | null {
 }
 
 /**
- * Processes the Gemini API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
- * @returns A data URL string for the generated image.
- */
-function processGeminiResponse(response: GenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
-    }
-
-    const textResponse = response.text;
-    console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
-}
-
-/**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors.
+ * A wrapper for the image model call that includes a retry mechanism for internal server errors.
  * @param imagePart The image part of the request payload.
  * @param textPart The text part of the request payload.
- * @returns The GenerateContentResponse from the API.
+ * @returns A data URL string for the generated image.
  */
-async function callGeminiWithRetry(imagePart: object, textPart: object): Promise<GenerateContentResponse> {
+async function callImageModelWithRetry(imagePart: ModelPart, textPart: ModelPart): Promise<string> {
     const maxRetries = 3;
     const initialDelay = 1000;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
         try {
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts: [imagePart, textPart] },
-            });
+            return await getImageProvider().generateImage([imagePart, textPart]);
         } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
+            console.error(`Error calling image model (Attempt ${attempt}/${maxRetries}):`, error);
             const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
             const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
 
@@ -89,7 +102,7 @@ async function callGeminiWithRetry(imagePart: object, textPart: object): Promise
         }
     }
     // This should be unreachable due to the loop and throw logic above.
-    throw new Error("Gemini API call failed after all retries.");
+    throw new Error("Image model call failed after all retries.");
 }
 
 
@@ -120,12 +133,136 @@ export async function imageSrcToBase64(src: string): Promise<string> {
     }
 }
 
+/**
+ * Wraps an image as an inline model part, keeping the MIME type of data URLs.
+ * @param src The image source (data URL or blob URL)
+ */
+async function imageSrcToPart(src: string): Promise<ModelPart> {
+    const match = src.match(/^data:(image\/\w+);base64,(.*)$/);
+    if (match) {
+        return { inlineData: { mimeType: match[1], data: match[2] } };
+    }
+    return { inlineData: { mimeType: 'image/png', data: await imageSrcToBase64(src) } };
+}
+
+function loadImageElement(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = "anonymous";
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = src;
+    });
+}
+
+/**
+ * Describes the real-world size of a plan image for use in prompts.
+ * @param planScale The calibrated plan scale.
+ * @param width The natural width of the plan image the model will see.
+ * @param height The natural height of the plan image the model will see.
+ * @returns A sentence stating the scale and the overall plan dimensions, or null when the image's
+ * proportions show it does not cover the calibrated plan extent.
+ */
+function describePlanScale(planScale: PlanScale, width: number, height: number): string | null {
+    const pixelsPerMetre = pixelsPerMetreForImage(planScale, width, height);
+    if (!pixelsPerMetre) {
+        console.warn('The plan image is framed differently from the calibrated upload; leaving its scale out of the prompt.');
+        return null;
+    }
+    const planWidth = formatLength(width / pixelsPerMetre, planScale.unit);
+    const planHeight = formatLength(height / pixelsPerMetre, planScale.unit);
+    return `The floor plan is drawn to scale at about ${pixelsPerMetre.toFixed(1)} pixels per metre, so the whole plan image covers roughly ${planWidth} × ${planHeight}.`;
+}
+
+const DAYLIGHT_DESCRIPTIONS: Record<TimeOfDay, string> = {
+    day: 'a naturally lit daytime scene with daylight coming in through the windows',
+    goldenHour: 'a golden-hour scene in the late afternoon, with low, warm sunlight raking across the room and long soft shadows',
+    dusk: 'a soft dusk scene just after sunset. Low, warm light from the horizon mixes with the interior lighting. If there are windows, they MUST show a deepening orange-to-blue evening sky outside',
+    blueHour: 'a blue-hour scene shortly after dusk. The sky outside the windows MUST be a deep, saturated blue, balanced against the warm glow of the interior',
+    night: 'a nighttime scene. If there are windows, they MUST show a dark night sky outside, and any light in the room comes from the interior fittings',
+};
+
+const WEATHER_DESCRIPTIONS: Record<Weather, string> = {
+    clear: '',
+    overcast: 'The sky is overcast, so daylight is soft, even and shadowless with no direct sun.',
+    rain: 'It is raining outside: the windows show a grey, wet sky with raindrops on the glass, and the daylight is dim and diffuse.',
+};
+
+const MATERIAL_PROMPT_NAMES: Record<typeof MATERIAL_SLOTS[number], string> = {
+    floor: 'floor',
+    wall: 'walls',
+    joinery: 'joinery and cabinetry',
+    fabrics: 'fabrics and upholstery',
+};
+
+/**
+ * Spells out a saved style preset so every scene rendered with it uses the same palette and materials.
+ * @param preset The style preset.
+ */
+function describeStylePreset(preset: StylePreset): string {
+    const details = [
+        preset.description.trim(),
+        preset.palette.length > 0 ? `Use this colour palette throughout: ${preset.palette.join(', ')}.` : '',
+        ...MATERIAL_SLOTS
+            .filter(slot => preset.materials[slot].trim())
+            .map(slot => `The ${MATERIAL_PROMPT_NAMES[slot]} MUST be ${preset.materials[slot].trim()}.`),
+    ];
+    return details.filter(Boolean).join(' ');
+}
+
+/**
+ * Describes where the sun falls relative to the camera, e.g. "from the left of the camera".
+ * @param sunBearing The compass bearing of the sun.
+ * @param viewBearing The compass bearing the camera faces.
+ */
+function describeSunSide(sunBearing: number, viewBearing: number): string {
+    const relative = normalizeHeading(sunBearing - viewBearing);
+    if (relative < 45 || relative >= 315) return 'ahead of the camera, so the windows in view are backlit and the room is seen against the light';
+    if (relative < 135) return 'from the right of the camera, casting shadows towards the left of the frame';
+    if (relative < 225) return 'from behind the camera, lighting the surfaces in view head-on';
+    return 'from the left of the camera, casting shadows towards the right of the frame';
+}
+
+/**
+ * Describes the lighting of a scene for the image model.
+ * @param lighting The daylight and interior lighting to render.
+ * @param viewBearing Optional compass bearing the camera faces, used to say which side the sunlight comes from.
+ */
+function describeLighting(lighting: LightingPreset, viewBearing?: number | null): string {
+    const sentences = [DAYLIGHT_DESCRIPTIONS[lighting.timeOfDay] + '.'];
+
+    if (WEATHER_DESCRIPTIONS[lighting.weather]) {
+        sentences.push(WEATHER_DESCRIPTIONS[lighting.weather]);
+    }
+
+    if (hasDirectSun(lighting)) {
+        const sunSide = viewBearing !== undefined && viewBearing !== null
+            ? describeSunSide(lighting.sunBearing, viewBearing)
+            : `through the windows on the ${compassDirection(lighting.sunBearing)} side of the home`;
+        sentences.push(`The sun is in the ${compassDirection(lighting.sunBearing)}, and direct sunlight enters ${sunSide}.`);
+    }
+
+    if (lighting.lampIntensity <= 0) {
+        sentences.push('All interior lamps and ceiling lights are switched OFF; the room is lit by daylight only');
+    } else {
+        const strength = lighting.lampIntensity >= 80 ? 'All interior lamps, pendants and recessed lights are switched ON at full brightness'
+            : lighting.lampIntensity >= 40 ? 'The interior lamps are switched on at a moderate level'
+            : 'A few interior lamps are switched on at a low, accent level';
+        sentences.push(`${strength}, with a color temperature of around ${lighting.temperature}K`);
+    }
+
+    return sentences.join(' ');
+}
+
 /**
  * Generates prompt variations to ensure different results
  * @param basePrompt The base prompt
  * @returns Modified prompt with variation
  */
 function generatePromptVariations(basePrompt: string): string {
+    if (getImageProvider().deterministic) {
+        return basePrompt;
+    }
     const variations = [
         '',  // Original
         '. Please generate a unique result.',
@@ -145,40 +282,16 @@ function generatePromptVariations(basePrompt: string): string {
  * @param parts The parts array for the request
  * @returns Promise resolving to data URL of generated image
  */
-export async function generateArchitecturalImage(parts: any[]): Promise<string> {
+export async function generateArchitecturalImage(parts: ModelPart[]): Promise<string> {
     const maxAttempts = 7;
     let attempts = 0;
     
-    // FIX: Updated config for 'gemini-2.5-flash-image-preview' model according to guidelines.
-    // This model only supports `responseModalities`. Other configs like temperature, topP, 
-    // and safetySettings are not supported and have been removed.
-    const payload = { 
-        contents: { parts }, 
-        config: { 
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        }
-    };
-    
     while(attempts < maxAttempts) {
         try {
             console.log(`Architectural image generation attempt ${attempts + 1}/${maxAttempts}`);
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                ...payload
-            });
-            
-            // Check for blocked content
-            if (response.candidates?.[0]?.finishReason === 'SAFETY') {
-                throw new Error('Content was blocked by safety filters');
-            }
-            
-            const imagePart = response?.candidates?.[0]?.content?.parts?.find(p => (p as any).inlineData);
-            if (imagePart && (imagePart as any).inlineData?.data) {
-                console.log('Architectural image generation successful');
-                return `data:image/png;base64,${(imagePart as any).inlineData.data}`;
-            }
-            
-            throw new Error("API response did not contain image data");
+            const imageUrl = await getImageProvider().generateImage(parts);
+            console.log('Architectural image generation successful');
+            return imageUrl;
         } catch (error) {
             attempts++;
             console.error(`Attempt ${attempts} failed:`, error);
@@ -218,7 +331,7 @@ export async function generateAIRendering(
 
     for (let i = 0; i < numberOfImages; i++) {
         const promise = (async () => {
-            let parts;
+            let parts: ModelPart[];
             if (maskBase64) {
                 const maskPrompt = generatePromptVariations(`Using the provided black and white mask image, make precise modifications to the base image, which is an architectural top-down view. Apply the following changes: "${promptOverride}"
 
@@ -280,6 +393,53 @@ IMPORTANT: Generate a clean, professional architectural visualization that accur
     return await Promise.all(generationPromises);
 }
 
+/**
+ * Style references that keep a scene true to the client's look. Images are attached after the plan.
+ */
+export interface SceneReferences {
+    /** A saved style whose palette, materials and mood board the scene must follow. */
+    stylePreset?: StylePreset | null;
+    /** A fuller description of the style, e.g. from analysing the mood board. */
+    styleDescription?: string;
+    /** The project's own reference images, such as screenshots sent by the client. */
+    moodBoard?: string[];
+    /** The furniture and material schedule every scene of the home follows, in consistency mode. */
+    designBrief?: DesignBrief | null;
+    /** Finished scenes of the same home from other viewpoints, whose furniture and finishes must be matched. */
+    neighbourScenes?: string[];
+}
+
+/**
+ * What the plan says about a viewpoint: its real-world scale, where it looks and what room it is in.
+ */
+export interface ViewpointContext {
+    /** The calibrated scale, used to keep rooms and furniture at realistic sizes. */
+    planScale?: PlanScale | null;
+    /** Plan heading and field of view, drawn as a cone on the plan. */
+    view?: { heading: number; fov: number } | null;
+    /** The kind of room the viewpoint stands in. */
+    roomType?: RoomType | null;
+    /** The plan heading of its north arrow, used to place the sun; 0 when north is at the top. */
+    northHeading?: number;
+}
+
+/**
+ * Names a run of attached images by their 1-based positions, e.g. "images 2 to 4".
+ */
+function describeImageRange(first: number, count: number): string {
+    return count > 1 ? `images ${first} to ${first + count - 1}` : `image ${first}`;
+}
+
+/**
+ * Spells out a design brief as a schedule the image model can follow room by room.
+ */
+function describeDesignBrief(brief: DesignBrief): string {
+    const rooms = brief.rooms.map(room =>
+        `${room.name}: furniture ${room.furniture.join(', ')}; materials ${room.materials.join(', ')}.`
+    );
+    return [brief.summary.trim(), ...rooms].filter(Boolean).join(' ');
+}
+
 /**
  * Generates interior scene from viewpoint
  * @param planImageSrc The floor plan image source
@@ -288,8 +448,9 @@ IMPORTANT: Generate a clean, professional architectural visualization that accur
  * @param style Interior design style
  * @param viewIndex Index of the viewpoint (1-4)
  * @param camera Camera parameters for view angle
- * @param mode The lighting mode, either 'day' or 'night'
- * @param temperature The color temperature in Kelvin
+ * @param lighting The daylight and interior lighting to render
+ * @param viewpoint Optional scale, view direction, room type and north arrow of the viewpoint
+ * @param references Optional style preset, style description and mood-board images the scene must follow
  * @returns Promise resolving to generated scene image data URL
  */
 export async function generateInteriorScene(
@@ -299,21 +460,18 @@ export async function generateInteriorScene(
     style: string,
     viewIndex: number,
     camera: { rotation: number; tilt: number; zoom: number; },
-    mode: 'day' | 'night',
-    temperature: number
+    lighting: LightingPreset,
+    viewpoint: ViewpointContext = {},
+    references: SceneReferences = {}
 ): Promise<string> {
+    const { planScale, view, roomType, northHeading = 0 } = viewpoint;
+
     // Create a temporary canvas to draw the base image and enhanced viewpoint marker
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error('Could not get canvas context');
     
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        img.src = planImageSrc;
-    });
+    const img = await loadImageElement(planImageSrc);
     
     canvas.width = img.naturalWidth;
     canvas.height = img.naturalHeight;
@@ -321,6 +479,12 @@ export async function generateInteriorScene(
 
     const radius = 25;
 
+    // The camera pan from the scene modal turns the whole view, so fold it into the heading.
+    const heading = view ? normalizeHeading(view.heading + (camera?.rotation ?? 0)) : null;
+    if (view && heading !== null) {
+        drawViewCone(ctx, pointX, pointY, heading, view.fov, Math.max(radius * 4, Math.min(canvas.width, canvas.height) * 0.15));
+    }
+
     // Draw simple viewpoint marker
     ctx.beginPath();
     ctx.arc(pointX, pointY, radius, 0, 2 * Math.PI);
@@ -341,7 +505,7 @@ export async function generateInteriorScene(
     
     let cameraInstructions = '';
     if (camera) {
-        if (camera.rotation !== 0) {
+        if (camera.rotation !== 0 && heading === null) {
             const direction = camera.rotation > 0 ? 'right' : 'left';
             cameraInstructions += ` The camera is panned ${Math.abs(camera.rotation)} degrees to the ${direction}.`;
         }
@@ -359,26 +523,41 @@ export async function generateInteriorScene(
     }
 
     const materialRealism = 'photorealistic with hyper-detailed textures';
+    // The scale was calibrated on the upload; it is only passed on if this plan shows the same extent.
+    const scaleDescription = planScale ? describePlanScale(planScale, img.naturalWidth, img.naturalHeight) : null;
 
-    const lightingDescription = mode === 'day' 
-        ? `a bright, naturally lit daytime scene from large windows, with a neutral-to-cool color temperature of around ${temperature}K`
-        : `a dramatic and atmospheric nighttime scene. The primary light source MUST be artificial interior lighting (lamps, recessed lights). Create high contrast between the warm, bright lights and deep, dark shadows. If there are windows, they MUST show a dark night sky outside. The overall mood should be cozy and well-lit, with a color temperature of around ${temperature}K`;
+    const { stylePreset, styleDescription, moodBoard = [], designBrief, neighbourScenes = [] } = references;
+    const presetDescription = stylePreset ? describeStylePreset(stylePreset) : '';
+    const moodBoardImages = [...(stylePreset?.moodBoard ?? []), ...moodBoard];
+
+    // Plan headings are measured from the top of the plan; compass bearings from the plan's north arrow.
+    const viewBearing = heading !== null ? normalizeHeading(heading - northHeading) : null;
+    const lightingDescription = describeLighting(lighting, viewBearing);
 
     const promptDetails = [
         `Generate a ${materialRealism} FIRST-PERSON VIEW interior photograph from the perspective of viewpoint ${viewIndex} on the attached floor plan.`,
-        `STYLE & ATMOSPHERE: The interior design style is "${style}".`,
+        `STYLE & ATMOSPHERE: The interior design style is "${style}".${styleDescription?.trim() ? ` ${styleDescription.trim()}` : ''}`,
+        ...(presetDescription ? [`STYLE PRESET: ${presetDescription}`] : []),
+        // The plan is the first attached image, so the mood board starts at the second.
+        ...(moodBoardImages.length > 0 ? [`MOOD BOARD: Mood-board references for this style are attached as ${describeImageRange(2, moodBoardImages.length)}, after the floor plan. Match their colour palette, materials and furniture language closely, but do not copy their room layouts or camera angles; the layout comes only from the floor plan.`] : []),
         `LIGHTING: ${lightingDescription}. Render realistic shadows, reflections, and highlights corresponding to this light source.`,
         `CAMERA VIEW: The camera is at human eye-level (approximately 1.6 meters high).${cameraInstructions || ' The camera is at a neutral, forward-facing position.'}`,
+        ...(view && viewBearing !== null ? [`VIEW DIRECTION: The red cone drawn from viewpoint ${viewIndex} on the plan shows exactly where the camera looks. ${northHeading ? "Going by the plan's north arrow" : 'Taking the top of the plan as north'}, the camera faces ${compassDirection(viewBearing)} (${Math.round(viewBearing)}° clockwise from north) with a horizontal field of view of about ${Math.round(view.fov)}°. Show only the walls, openings and furniture that fall inside that cone; what is behind the camera must not appear.`] : []),
+        ...(designBrief ? [`DESIGN BRIEF: Every view of this home follows one furniture and material schedule. Use exactly these pieces and finishes wherever their room is in view, and do not introduce others: ${describeDesignBrief(designBrief)}`] : []),
+        ...(neighbourScenes.length > 0 ? [`CONSISTENCY: Finished views of the same home from other viewpoints are attached as ${describeImageRange(moodBoardImages.length + 2, neighbourScenes.length)}. Any furniture, finish or colour visible in those views MUST look identical here (the same sofa, the same floor, the same lamps), only seen from this viewpoint's angle. Do not copy their camera angle.`] : []),
+        ...(roomType ? [`ROOM: Viewpoint ${viewIndex} stands in the ${ROOM_TYPE_DETAILS[roomType].name}. The scene MUST show a ${ROOM_TYPE_DETAILS[roomType].name} with ${ROOM_TYPE_DETAILS[roomType].furnishings}; do not furnish it as any other kind of room.`] : []),
         'COMPOSITION: Create a complete and believable indoor scene with walls, ceiling, floor, furniture, and decor that fit the specified style. The layout must be consistent with the floor plan.',
+        ...(scaleDescription ? [`SCALE: ${scaleDescription} Measure the room containing viewpoint ${viewIndex} on the plan and keep its width, depth and the size of every piece of furniture true to these real dimensions (for example, a sofa is about 2 m long, a dining chair about 0.45 m wide, a door about 0.9 m wide).`] : []),
         `CRITICAL INSTRUCTIONS: The output MUST be a ground-level, horizontal photograph from inside the room. ABSOLUTELY DO NOT generate aerial, top-down, or bird's-eye perspectives. The image must look like it was taken by a person standing at viewpoint ${viewIndex}.`
     ];
     
     const basePrompt = promptDetails.join(' ');
     const prompt = generatePromptVariations(basePrompt);
     
-    const parts = [
+    const parts: ModelPart[] = [
         { text: prompt },
-        { inlineData: { mimeType: 'image/png', data: imageWithPointBase64 } }
+        { inlineData: { mimeType: 'image/png', data: imageWithPointBase64 } },
+        ...await Promise.all([...moodBoardImages, ...neighbourScenes].map(imageSrcToPart)),
     ];
     
     console.log(`Generating scene ${viewIndex} with prompt: ${prompt}`);
@@ -389,8 +568,7 @@ export async function generateInteriorScene(
  * Edits an existing interior scene based on a text prompt and lighting settings.
  * @param baseImageSrc The source URL of the image to edit.
  * @param prompt The user's instruction for the edit.
- * @param mode The desired lighting mode ('day' or 'night').
- * @param temperature The desired color temperature in Kelvin.
+ * @param lighting The desired daylight and interior lighting.
  * @param maskBase64 Optional base64 string of a black and white mask image.
  * @param objectImageBase64 Optional base64 string of a reference object to add.
  * @returns A promise resolving to the data URL of the edited image.
@@ -398,19 +576,16 @@ export async function generateInteriorScene(
 export async function editInteriorScene(
     baseImageSrc: string,
     prompt: string,
-    mode: 'day' | 'night',
-    temperature: number,
+    lighting: LightingPreset,
     maskBase64?: string,
     objectImageBase64?: string
 ): Promise<string> {
     const baseImage64 = await imageSrcToBase64(baseImageSrc);
     
-    const lightingDescription = mode === 'day' 
-        ? `a bright, naturally lit daytime scene from large windows, with a neutral-to-cool color temperature of around ${temperature}K`
-        : `a dramatic and atmospheric nighttime scene. The primary light source MUST be artificial interior lighting (lamps, recessed lights). Create high contrast between the warm, bright lights and deep, dark shadows. If there are windows, they MUST show a dark night sky outside. The overall mood should be cozy and well-lit, with a color temperature of around ${temperature}K`;
+    const lightingDescription = describeLighting(lighting);
 
     let editPromptText: string;
-    let parts: Part[] = [];
+    let parts: ModelPart[] = [];
 
     const commonInstructions = `
 CRITICAL INSTRUCTIONS:
@@ -483,6 +658,148 @@ ${commonInstructions}`;
     return await generateArchitecturalImage(parts);
 }
 
+/**
+ * Paints every region in its colour on black, so one image tells the model where each edit goes.
+ * @returns The region map as a base64 PNG, at the size of the first region's mask.
+ */
+async function composeRegionMap(regions: MaskRegionEdit[]): Promise<string> {
+    const masks = await Promise.all(regions.map(region => loadImageElement(`data:image/png;base64,${region.maskBase64}`)));
+    const canvas = document.createElement('canvas');
+    canvas.width = masks[0].naturalWidth;
+    canvas.height = masks[0].naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    const layer = document.createElement('canvas');
+    layer.width = canvas.width;
+    layer.height = canvas.height;
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) throw new Error('Could not get canvas context');
+
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // 'screen' keeps the black of each mask from covering regions painted before it.
+    ctx.globalCompositeOperation = 'screen';
+    regions.forEach((region, index) => {
+        layerCtx.globalCompositeOperation = 'source-over';
+        layerCtx.drawImage(masks[index], 0, 0, layer.width, layer.height);
+        layerCtx.globalCompositeOperation = 'multiply';
+        layerCtx.fillStyle = region.color.value;
+        layerCtx.fillRect(0, 0, layer.width, layer.height);
+        ctx.drawImage(layer, 0, 0);
+    });
+    return canvas.toDataURL('image/png').split(',')[1];
+}
+
+/**
+ * Applies several region edits, either in one request with a region map or one after another.
+ * @param composedTask The instructions for a single request; the list of region edits is appended.
+ * @param editRegion Applies one region's edit to an image, for sequential mode.
+ * @param onStep Called with each intermediate result in sequential mode, so callers can record it.
+ * @returns The image after every edit: one per region in sequential mode, a single one otherwise.
+ */
+async function applyRegionEdits(
+    baseImageSrc: string,
+    regions: MaskRegionEdit[],
+    mode: RegionEditMode,
+    composedTask: string,
+    editRegion: (imageSrc: string, region: MaskRegionEdit) => Promise<string>,
+    onStep?: (imageUrl: string, region: MaskRegionEdit) => void
+): Promise<string[]> {
+    if (mode === 'sequential' || regions.length === 1) {
+        const steps: string[] = [];
+        let current = baseImageSrc;
+        for (const region of regions) {
+            current = await editRegion(current, region);
+            steps.push(current);
+            onStep?.(current, region);
+        }
+        return steps;
+    }
+
+    const regionList = regions.map(region => `- ${region.color.name.toUpperCase()} region: "${region.prompt}"`).join('\n');
+    const parts: ModelPart[] = [
+        { text: generatePromptVariations(`${composedTask}\n\nREGION EDITS:\n${regionList}`) },
+        await imageSrcToPart(baseImageSrc),
+        { inlineData: { mimeType: 'image/png', data: await composeRegionMap(regions) } },
+    ];
+    return [await generateArchitecturalImage(parts)];
+}
+
+/**
+ * Edits several painted regions of a scene, each with its own instruction.
+ * @param baseImageSrc The scene to edit.
+ * @param regions The painted regions and their instructions.
+ * @param lighting The lighting to render the whole scene in.
+ * @param mode Whether to send one request with a region map or one request per region.
+ * @param onStep Called with each intermediate result in sequential mode.
+ * @returns The image after every edit: one per region in sequential mode, a single one otherwise.
+ */
+export async function editInteriorSceneRegions(
+    baseImageSrc: string,
+    regions: MaskRegionEdit[],
+    lighting: LightingPreset,
+    mode: RegionEditMode,
+    onStep?: (imageUrl: string, region: MaskRegionEdit) => void
+): Promise<string[]> {
+    const composedTask = `You are an expert interior photo editor. You are given a BASE SCENE image and a REGION MAP of the same size.
+TASK:
+1.  **APPLY EACH EDIT TO ITS REGION:** Each coloured area of the REGION MAP marks a part of the BASE SCENE to change. Make each change listed below ONLY inside the area painted in its colour.
+2.  **ADJUST LIGHTING:** Render the entire scene as ${describeLighting(lighting)}.
+3.  **PRESERVE UNMARKED AREAS:** The black area of the region map MUST remain unchanged.
+
+CRITICAL INSTRUCTIONS:
+-   Maintain the original camera angle, perspective, and overall architectural structure.
+-   The result must be a single, photorealistic, and coherent image with seamless blending.
+-   Do not include the region map or its colours in the final output.
+-   The output must be a ground-level photograph. DO NOT change to a top-down or bird's-eye view.`;
+
+    return applyRegionEdits(
+        baseImageSrc,
+        regions,
+        mode,
+        composedTask,
+        (imageSrc, region) => editInteriorScene(imageSrc, region.prompt, lighting, region.maskBase64),
+        onStep
+    );
+}
+
+/**
+ * Corrects several painted regions of a rendered floor plan, each with its own instruction.
+ * @param baseImageSrc The rendering to correct.
+ * @param regions The painted regions and their instructions.
+ * @param mode Whether to send one request with a region map or one request per region.
+ * @param onStep Called with each intermediate result in sequential mode.
+ * @returns The image after every correction: one per region in sequential mode, a single one otherwise.
+ */
+export async function generateAIRenderingRegions(
+    baseImageSrc: string,
+    regions: MaskRegionEdit[],
+    mode: RegionEditMode,
+    onStep?: (imageUrl: string, region: MaskRegionEdit) => void
+): Promise<string[]> {
+    const composedTask = `Using the provided REGION MAP, make precise modifications to the base image, which is an architectural top-down view. Each coloured area of the region map marks a part of the base image to change; apply each change listed below ONLY inside the area painted in its colour.
+
+PERSPECTIVE INSTRUCTIONS:
+- The base image is a TOP-DOWN ARCHITECTURAL VIEW (bird's-eye view).
+- Any objects you add or modify (like furniture, windows, doors) MUST be rendered from a consistent TOP-DOWN perspective.
+- DO NOT generate side-view or isometric-view objects.
+
+MASKING INSTRUCTIONS:
+- The BLACK areas of the region map indicate parts of the base image that MUST be preserved exactly as they are.
+- Ensure the final image is a single, coherent image with seamless blending between the edited and unedited parts.
+- Do not include the region map or its colours in the final output.`;
+
+    return applyRegionEdits(
+        baseImageSrc,
+        regions,
+        mode,
+        composedTask,
+        async (imageSrc, region) => (await generateAIRendering(imageSrc, region.prompt, region.maskBase64, 1))[0],
+        onStep
+    );
+}
+
 /**
  * Generates a decade-styled image from a source image and a prompt.
  * It includes a fallback mechanism for prompts that might be blocked in certain regions.
@@ -505,8 +822,7 @@ export async function generateDecadeImage(imageDataUrl: string, prompt: string):
     try {
         console.log("Attempting generation with original prompt...");
         const textPart = { text: prompt };
-        const response = await callGeminiWithRetry(imagePart, textPart);
-        return processGeminiResponse(response);
+        return await callImageModelWithRetry(imagePart, textPart);
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
         const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
@@ -524,8 +840,7 @@ export async function generateDecadeImage(imageDataUrl: string, prompt: string):
                 const fallbackPrompt = getFallbackPrompt(decade);
                 console.log(`Attempting generation with fallback prompt for ${decade}...`);
                 const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await callGeminiWithRetry(imagePart, fallbackTextPart);
-                return processGeminiResponse(fallbackResponse);
+                return await callImageModelWithRetry(imagePart, fallbackTextPart);
             } catch (fallbackError) {
                 console.error("Fallback prompt also failed.", fallbackError);
                 const finalErrorMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
@@ -540,30 +855,50 @@ export async function generateDecadeImage(imageDataUrl: string, prompt: string):
 }
 
 /**
- * Generates an interior design style suggestion based on a floor plan.
+ * A suggested interior style, with a short description of its look.
+ */
+export interface StyleSuggestion {
+    name: string;
+    description: string;
+}
+
+const styleSuggestionSchema: ResponseSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', description: 'A concise interior design style name, e.g. "Modern Minimalist" or "Japandi".' },
+        description: { type: 'string', description: 'Two or three sentences describing the colour palette, materials and furniture of the style.' },
+    },
+    required: ['name', 'description'],
+};
+
+/**
+ * Suggests an interior design style for a floor plan. When mood-board images are given,
+ * the style is read from them so it matches what the client sent.
  * @param planImageSrc The floor plan image source.
- * @returns A promise that resolves to a suggested style string.
+ * @param moodBoard Optional reference images from the client.
+ * @returns A promise that resolves to the suggested style.
  */
-export async function suggestInteriorStyle(planImageSrc: string): Promise<string> {
+export async function suggestInteriorStyle(planImageSrc: string, moodBoard: string[] = []): Promise<StyleSuggestion> {
     try {
         const baseImage64 = await imageSrcToBase64(planImageSrc);
         const imagePart = {
             inlineData: { mimeType: 'image/jpeg', data: baseImage64 }
         };
 
-        const prompt = `Analyze this architectural floor plan. Based on the layout, room sizes, and potential flow, suggest a single, concise interior design style that would be suitable. Provide only the name of the style (e.g., "Modern Minimalist", "Scandinavian", "Industrial Loft", "Bohemian Chic"). Do not add any other explanatory text.`;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [ { text: prompt }, imagePart ] },
-        });
+        const prompt = moodBoard.length > 0
+            ? `The first attached image is an architectural floor plan; the other ${moodBoard.length} image${moodBoard.length > 1 ? 's are' : ' is'} a client's mood board. Analyse the mood board's colour palette, materials and furniture language and name the single interior design style it represents (e.g. "Modern Minimalist", "Scandinavian", "Industrial Loft", "Japandi"). Describe the style in two or three sentences so a designer could apply it to this plan.`
+            : `Analyze this architectural floor plan. Based on the layout, room sizes, and potential flow, suggest a single, concise interior design style that would be suitable (e.g. "Modern Minimalist", "Scandinavian", "Industrial Loft", "Bohemian Chic"). Describe its palette, materials and furniture in two or three sentences.`;
 
-        const suggestedStyle = response.text.trim();
-        if (!suggestedStyle) {
+        const jsonText = await getTextProvider().generateText(
+            [{ text: prompt }, imagePart, ...await Promise.all(moodBoard.map(imageSrcToPart))],
+            { responseSchema: styleSuggestionSchema }
+        );
+        const suggestion = JSON.parse(jsonText);
+        if (typeof suggestion?.name !== 'string' || !suggestion.name.trim()) {
             throw new Error("AI did not return a style suggestion.");
         }
-        
-        return suggestedStyle.split('\n')[0];
+
+        return { name: suggestion.name.trim(), description: typeof suggestion.description === 'string' ? suggestion.description.trim() : '' };
 
     } catch (error) {
         console.error("Error suggesting interior style:", error);
@@ -571,6 +906,157 @@ export async function suggestInteriorStyle(planImageSrc: string): Promise<string
     }
 }
 
+/**
+ * A room found on a floor plan, with the camera spots that show it best.
+ * Coordinates are fractions (0–1) of the plan's width and height.
+ */
+export interface DetectedRoom {
+    name: string;
+    type?: RoomType;
+    polygon: { x: number; y: number }[];
+    cameras: { x: number; y: number; heading: number; fov: number }[];
+}
+
+const planPositionSchema = (description: string): Record<string, ResponseSchema> => ({
+    x: { type: 'number', description: `${description} x position as a fraction of the plan width, from 0 (left edge) to 1 (right edge).` },
+    y: { type: 'number', description: `${description} y position as a fraction of the plan height, from 0 (top edge) to 1 (bottom edge).` },
+});
+
+const detectedRoomsSchema: ResponseSchema = {
+    type: 'object',
+    properties: {
+        rooms: {
+            type: 'array',
+            description: "Every distinct room or open area on the plan.",
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', description: "The room's name, e.g. \"Living Room\", \"Kitchen\", \"Master Bedroom\"." },
+                    type: { type: 'string', enum: [...ROOM_TYPES, 'other'], description: "The kind of room, or \"other\" when none fits (e.g. a laundry or storage room)." },
+                    polygon: {
+                        type: 'array',
+                        description: "The corners of the room's outline in order, following its walls.",
+                        items: { type: 'object', properties: planPositionSchema('Corner'), required: ['x', 'y'] },
+                        minItems: 3,
+                    },
+                    cameras: {
+                        type: 'array',
+                        description: "One or two recommended camera spots inside the room for an eye-level interior photograph.",
+                        items: {
+                            type: 'object',
+                            properties: {
+                                ...planPositionSchema('Camera'),
+                                heading: { type: 'number', description: "Compass direction the camera faces, in degrees clockwise from the top of the plan (0 = up, 90 = right)." },
+                                fov: { type: 'number', description: `Horizontal field of view in degrees, between ${MIN_FIELD_OF_VIEW} and ${MAX_FIELD_OF_VIEW}.` },
+                            },
+                            required: ['x', 'y', 'heading', 'fov'],
+                        },
+                        minItems: 1,
+                        maxItems: 2,
+                    },
+                },
+                required: ['name', 'type', 'polygon', 'cameras'],
+            },
+        },
+    },
+    required: ['rooms'],
+};
+
+/**
+ * The outline of an object or area in an image, as traced by the model.
+ * Coordinates are fractions (0–1) of the image's width and height.
+ */
+export interface SegmentedObject {
+    label: string;
+    outline: { x: number; y: number }[];
+}
+
+const segmentedObjectSchema: ResponseSchema = {
+    type: 'object',
+    properties: {
+        label: { type: 'string', description: "A short name for the object or area, e.g. \"sofa\", \"rug\", \"kitchen\"." },
+        outline: {
+            type: 'array',
+            description: "The corners of a polygon tracing the object's visible outline, in order, tight enough to exclude its surroundings.",
+            items: {
+                type: 'object',
+                properties: {
+                    x: { type: 'number', description: "x position as a fraction of the image width, from 0 (left edge) to 1 (right edge)." },
+                    y: { type: 'number', description: "y position as a fraction of the image height, from 0 (top edge) to 1 (bottom edge)." },
+                },
+                required: ['x', 'y'],
+            },
+            minItems: 3,
+        },
+    },
+    required: ['label', 'outline'],
+};
+
+/**
+ * Asks the model to trace the object or room under a point of an image, for selecting it as an edit mask.
+ * @param imageSrc The rendering or scene the user is editing.
+ * @param point The clicked point, as fractions of the image's width and height.
+ * @returns A promise that resolves to the object's outline, with coordinates clamped to the image.
+ */
+export async function segmentObjectAt(imageSrc: string, point: { x: number; y: number }): Promise<SegmentedObject> {
+    try {
+        const prompt = `Identify the single object or area at the point (x=${point.x.toFixed(3)}, y=${point.y.toFixed(3)}) of this image, where x and y are fractions of the image's width and height measured from its top-left corner. If the point is on a piece of furniture or a fixture, trace that item. If it is on a floor, wall or ceiling, trace that surface within the room. On a floor plan seen from above, trace the whole room the point lies in, following its walls. Trace the outline as a polygon with enough corners to follow curves closely.`;
+
+        const jsonText = await getTextProvider().generateText(
+            [{ text: prompt }, await imageSrcToPart(imageSrc)],
+            { responseSchema: segmentedObjectSchema }
+        );
+        const { label, outline } = JSON.parse(jsonText) as SegmentedObject;
+        if (!outline || outline.length < 3) {
+            throw new Error('The model did not return an outline.');
+        }
+
+        const clampFraction = (value: number) => Math.min(Math.max(Number(value) || 0, 0), 1);
+        return {
+            label: label || '',
+            outline: outline.map(corner => ({ x: clampFraction(corner.x), y: clampFraction(corner.y) })),
+        };
+    } catch (error) {
+        console.error("Error segmenting object:", error);
+        throw new Error(`Failed to select the object. ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Finds the rooms on a rendered floor plan and recommends camera positions for each.
+ * @param planImageSrc The rendered floor plan image source.
+ * @returns A promise that resolves to the detected rooms, with coordinates clamped to the plan.
+ */
+export async function detectRoomsAndViewpoints(planImageSrc: string): Promise<DetectedRoom[]> {
+    try {
+        const baseImage64 = await imageSrcToBase64(planImageSrc);
+        const prompt = `You are an experienced architectural photographer planning an interior shoot from this floor plan. Identify every room or distinct open area and trace its outline. For each room, recommend one or two camera spots where a photographer would stand at eye level: usually in a corner or doorway, looking across the longest dimension of the room towards its most interesting feature (windows, a fireplace, a kitchen island). Avoid spots inside furniture or walls, and never point the camera straight at a nearby wall. Give every position as a fraction of the plan image's width and height.`;
+
+        const jsonText = await getTextProvider().generateText(
+            [{ text: prompt }, { inlineData: { mimeType: 'image/png', data: baseImage64 } }],
+            { responseSchema: detectedRoomsSchema }
+        );
+        const { rooms } = JSON.parse(jsonText) as { rooms: DetectedRoom[] };
+
+        const clampFraction = (value: number) => Math.min(Math.max(Number(value) || 0, 0), 1);
+        return (rooms || [])
+            .filter(room => room.polygon?.length >= 3)
+            .map(room => ({
+                name: room.name,
+                type: isRoomType(room.type) ? room.type : undefined,
+                polygon: room.polygon.map(corner => ({ x: clampFraction(corner.x), y: clampFraction(corner.y) })),
+                cameras: (room.cameras || []).map(camera => ({
+                    x: clampFraction(camera.x),
+                    y: clampFraction(camera.y),
+                    heading: normalizeHeading(Number(camera.heading) || 0),
+                    fov: Math.min(Math.max(Number(camera.fov) || MIN_FIELD_OF_VIEW, MIN_FIELD_OF_VIEW), MAX_FIELD_OF_VIEW),
+                })),
+            }));
+    } catch (error) {
+        console.error("Error detecting rooms:", error);
+        throw new Error(`Failed to detect rooms on the plan. ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
 
 export interface PresentationText {
     presentationTitle: string;
@@ -584,30 +1070,207 @@ export interface PresentationText {
     conclusion: string;
 }
 
+/**
+ * Builds the response schema for presentation text.
+ * @param viewpointCount The number of viewpoint slides that need a title and description.
+ * @returns The schema describing a PresentationText object.
+ */
+function presentationTextSchema(viewpointCount: number): ResponseSchema {
+    return {
+        type: 'object',
+        properties: {
+            presentationTitle: {
+                type: 'string',
+                description: "A creative title for the design proposal (max 10 words)."
+            },
+            conceptTitle: {
+                type: 'string',
+                description: "A title for the main concepts slide (max 7 words)."
+            },
+            mainConcepts: {
+                type: 'array',
+                items: { type: 'string' },
+                minItems: 4,
+                maxItems: 4,
+                description: "Four main design concepts, each formatted as 'Title: Explanation' (max 15 words total per concept)."
+            },
+            viewpointDetails: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        title: { type: 'string', description: "Short room name or summary (max 7 words)." },
+                        description: { type: 'string', description: "Detailed description of the scene (max 30 words)." }
+                    },
+                    required: ["title", "description"]
+                },
+                minItems: viewpointCount,
+                maxItems: viewpointCount,
+                description: "An array of objects, one for each viewpoint."
+            },
+            conclusionTitle: {
+                type: 'string',
+                description: "A title for the conclusion slide (max 7 words)."
+            },
+            conclusion: {
+                type: 'string',
+                description: "A concluding paragraph for the presentation (max 40 words)."
+            }
+        },
+        required: ["presentationTitle", "conceptTitle", "mainConcepts", "viewpointDetails", "conclusionTitle", "conclusion"]
+    };
+}
+
+/**
+ * One room of a design brief: the pieces and finishes every view of it must show.
+ */
+export interface DesignBriefRoom {
+    name: string;
+    furniture: string[];
+    materials: string[];
+}
+
+/**
+ * A furniture and material schedule for the whole home, written before the scenes so they agree with each other.
+ */
+export interface DesignBrief {
+    /** The style the brief was written for; a brief for another style is written again. */
+    style: string;
+    summary: string;
+    rooms: DesignBriefRoom[];
+}
+
+const designBriefSchema: ResponseSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'One or two sentences on the palette and materials shared by the whole home.' },
+        schedule: {
+            type: 'array',
+            description: 'One entry for each room.',
+            items: {
+                type: 'object',
+                properties: {
+                    room: { type: 'string', description: 'The room name, e.g. "Living Room".' },
+                    furniture: {
+                        type: 'array',
+                        description: 'The main furniture and lighting, each specific enough to render identically every time, e.g. "three-seat sofa in sage-green boucle with oak legs".',
+                        items: { type: 'string' },
+                        minItems: 3,
+                        maxItems: 8,
+                    },
+                    materials: {
+                        type: 'array',
+                        description: 'The floor, wall, ceiling and joinery finishes, e.g. "wide-plank white oak floor".',
+                        items: { type: 'string' },
+                        minItems: 2,
+                        maxItems: 6,
+                    },
+                },
+                required: ['room', 'furniture', 'materials'],
+            },
+            minItems: 1,
+        },
+    },
+    required: ['summary', 'schedule'],
+};
+
+/**
+ * Writes a furniture and material schedule for the home, so that every scene shows the same pieces and finishes.
+ * @param planImageSrc The floor plan image source.
+ * @param style The interior design style.
+ * @param references The style preset, description and mood board the brief must follow.
+ * @param roomNames The rooms the viewpoints stand in; when empty, the rooms are read from the plan.
+ * @returns A promise that resolves to the brief.
+ */
+export async function generateDesignBrief(planImageSrc: string, style: string, references: SceneReferences, roomNames: string[]): Promise<DesignBrief> {
+    const { stylePreset, styleDescription, moodBoard = [] } = references;
+    const moodBoardImages = [...(stylePreset?.moodBoard ?? []), ...moodBoard];
+    const prompt = [
+        `You are the interior designer for the home on the attached floor plan. Write a furniture and material schedule in the "${style}" style that a renderer will follow for every view of the home, so the same room always shows the same pieces.`,
+        ...(styleDescription?.trim() ? [`The style: ${styleDescription.trim()}`] : []),
+        ...(stylePreset ? [`The style follows this preset: ${describeStylePreset(stylePreset)}`] : []),
+        ...(moodBoardImages.length > 0 ? [`The mood board is attached as ${describeImageRange(2, moodBoardImages.length)}; take its palette, materials and furniture.`] : []),
+        roomNames.length > 0
+            ? `Cover these rooms: ${roomNames.join(', ')}.`
+            : 'Cover every room on the plan.',
+        'Make every item specific (colour, material and shape) and keep the finishes consistent between connected rooms.',
+    ].join(' ');
+
+    try {
+        const planBase64 = await imageSrcToBase64(planImageSrc);
+        const jsonText = await getTextProvider().generateText(
+            [{ text: prompt }, { inlineData: { mimeType: 'image/png', data: planBase64 } }, ...await Promise.all(moodBoardImages.map(imageSrcToPart))],
+            { responseSchema: designBriefSchema }
+        );
+        const parsed = JSON.parse(jsonText);
+        const toStrings = (value: unknown): string[] => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+        const rooms: DesignBriefRoom[] = (Array.isArray(parsed?.schedule) ? parsed.schedule : [])
+            .filter((room: { room?: unknown }) => typeof room?.room === 'string')
+            .map((room: { room: string; furniture?: unknown; materials?: unknown }) => ({
+                name: room.room,
+                furniture: toStrings(room.furniture),
+                materials: toStrings(room.materials),
+            }));
+        if (rooms.length === 0) {
+            throw new Error("AI did not return a furniture schedule.");
+        }
+        return { style, summary: typeof parsed.summary === 'string' ? parsed.summary : '', rooms };
+    } catch (error) {
+        console.error("Error generating design brief:", error);
+        throw new Error(`Failed to write the design brief. ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 /**
  * Generates text content for a design presentation.
- * @param planImageSrc The source of the floor plan image.
- * @param scenes An array of generated scene objects.
+ * @param plans The rendered floor plan of each level, in level order.
+ * @param scenes An array of generated scene objects from all levels, in level order.
  * @param style The interior design style.
  * @param language The target language for the output.
  * @returns A promise that resolves to an object containing the generated text.
  */
 export async function generatePresentationText(
-    planImageSrc: string,
+    plans: LevelPlan[],
     scenes: GeneratedScene[],
     style: string,
     language: Language
 ): Promise<PresentationText> {
     try {
-        const planImageBase64 = await imageSrcToBase64(planImageSrc);
+        const planImagesBase64 = await Promise.all(plans.map(plan => imageSrcToBase64(plan.image)));
+
+        // Describe each floor's name and, when calibrated, its real size.
+        // The scale was calibrated on the upload, so it is left out for a plan that shows a different extent.
+        const planDescriptions: string[] = [];
+        const scaleUnits: PlanScale['unit'][] = [];
+        for (const plan of plans) {
+            let description = `"${plan.name}"`;
+            if (plan.planScale) {
+                const planImage = await loadImageElement(plan.image);
+                const scaleDescription = describePlanScale(plan.planScale, planImage.naturalWidth, planImage.naturalHeight);
+                if (scaleDescription) {
+                    description += `: ${scaleDescription}`;
+                    scaleUnits.push(plan.planScale.unit);
+                }
+            }
+            planDescriptions.push(description);
+        }
+        const planInstruction = plans.length > 1 || scaleUnits.length > 0
+            ? `\n\n**Floor plans:** The ${plans.length} floor plan image(s) are, in order: ${planDescriptions.join('; ')}. The viewpoint images follow the same floor order.${scaleUnits.length > 0 ? ` Where it helps, mention approximate room sizes in ${scaleUnits[0] === 'ft' ? 'feet' : 'metres'} in the viewpoint descriptions.` : ''}`
+            : '';
+
         const sceneImagePromises = scenes
             .filter(scene => scene.url)
             .map(scene => imageSrcToBase64(scene.url));
         const sceneImagesBase64 = await Promise.all(sceneImagePromises);
+
+        // Tie each viewpoint's title to the room it was tagged with, so slides are not mislabelled.
+        const roomInstruction = scenes.some(scene => scene.roomType)
+            ? `\n\n**Rooms:** The viewpoint images show, in order: ${scenes.map((scene, i) => `${i + 1}. ${scene.roomType ? ROOM_TYPE_DETAILS[scene.roomType].name : 'unspecified'}`).join('; ')}. Each viewpointDetails.title MUST name the room given for that viewpoint (translated into the output language); for unspecified viewpoints, name the room you see.`
+            : '';
         
         const languageInstruction = language === 'zh' ? 'Traditional Chinese (Taiwan)' : 'English';
 
-        const parts: Part[] = [
+        const parts: ModelPart[] = [
             {
                 text: `You are an expert interior designer creating a client-facing presentation in ${languageInstruction}.
 
@@ -624,63 +1287,16 @@ The provided design style is "${style}". Your primary task is to generate all te
     - **conclusionTitle**: A title for the conclusion slide, max 7 words.
     - **conclusion**: A concluding paragraph, max 40 words.
 
-Analyze the provided floor plan and ${scenes.length} viewpoint images, then generate a JSON object that follows the provided schema.`
+Analyze the provided floor plan${plans.length > 1 ? 's' : ''} and ${scenes.length} viewpoint images, then generate a JSON object that follows the provided schema.${planInstruction}${roomInstruction}`
             },
-            { inlineData: { mimeType: 'image/png', data: planImageBase64 } }
+            ...planImagesBase64.map(data => ({ inlineData: { mimeType: 'image/png', data } }))
         ];
 
         sceneImagesBase64.forEach(data => {
             parts.push({ inlineData: { mimeType: 'image/png', data } });
         });
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        presentationTitle: {
-                            type: Type.STRING,
-                            description: "A creative title for the design proposal (max 10 words)."
-                        },
-                        conceptTitle: {
-                            type: Type.STRING,
-                            description: "A title for the main concepts slide (max 7 words)."
-                        },
-                        mainConcepts: {
-                            type: Type.ARRAY,
-                            items: { type: Type.STRING },
-                            description: "Four main design concepts, each formatted as 'Title: Explanation' (max 15 words total per concept)."
-                        },
-                        viewpointDetails: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    title: { type: Type.STRING, description: "Short room name or summary (max 7 words)." },
-                                    description: { type: Type.STRING, description: "Detailed description of the scene (max 30 words)." }
-                                },
-                                required: ["title", "description"]
-                            },
-                            description: "An array of objects, one for each viewpoint."
-                        },
-                        conclusionTitle: {
-                            type: Type.STRING,
-                            description: "A title for the conclusion slide (max 7 words)."
-                        },
-                        conclusion: {
-                            type: Type.STRING,
-                            description: "A concluding paragraph for the presentation (max 40 words)."
-                        }
-                    },
-                    required: ["presentationTitle", "conceptTitle", "mainConcepts", "viewpointDetails", "conclusionTitle", "conclusion"]
-                },
-            },
-        });
-        
-        const jsonText = response.text.trim();
+        const jsonText = await getTextProvider().generateText(parts, { responseSchema: presentationTextSchema(scenes.length) });
         return JSON.parse(jsonText);
 
     } catch (error) {
@@ -703,12 +1319,7 @@ export async function suggestPlanImprovements(planImageSrc: string): Promise<str
 
         const prompt = `Analyze this rendered architectural floor plan. Provide one concise, actionable suggestion for improvement that could be passed to an AI image editor. The suggestion should be a single sentence. Examples: "Add a kitchen island for more counter space.", "Convert the small bedroom into a home office.", "Create an open-plan living area by removing the wall between the kitchen and living room." Focus on architectural or significant furniture layout changes. Do not add any conversational text, just the suggestion itself.`;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [ { text: prompt }, imagePart ] },
-        });
-
-        const suggestion = response.text.trim();
+        const suggestion = await getTextProvider().generateText([ { text: prompt }, imagePart ]);
         if (!suggestion) {
             throw new Error("AI did not return a suggestion.");
         }
@@ -727,22 +1338,19 @@ export async function suggestPlanImprovements(planImageSrc: string): Promise<str
  */
 export async function suggestStyleIdeas(): Promise<string[]> {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: 'Suggest 6 diverse and popular interior design styles. Provide only the names of the styles in the array.',
-            config: {
-                responseMimeType: "application/json",
+        const jsonText = await getTextProvider().generateText(
+            [{ text: 'Suggest 6 diverse and popular interior design styles. Provide only the names of the styles in the array.' }],
+            {
                 responseSchema: {
-                    type: Type.ARRAY,
-                    items: { 
-                        type: Type.STRING,
+                    type: 'array',
+                    items: {
+                        type: 'string',
                         description: 'An interior design style name.'
                     }
                 }
             }
-        });
+        );
 
-        const jsonText = response.text.trim();
         const styles = JSON.parse(jsonText);
 
         if (!Array.isArray(styles) || styles.length === 0) {
@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ImageModelProvider, ModelPart, ResponseSchema, TextGenerationOptions, TextModelProvider } from './modelProviders';
+
+const IMAGE_LATENCY_MS = 600;
+const TEXT_LATENCY_MS = 200;
+const SCENE_WIDTH = 1024;
+const SCENE_HEIGHT = 768;
+
+const STYLE_NAMES = ['Modern Minimalist', 'Scandinavian', 'Industrial Loft', 'Japandi', 'Coastal', 'Mid-Century Modern'];
+
+// Canned values for the string fields requested by the app's response schemas, keyed by property name.
+const FIXTURE_STRINGS: Record<string, string[]> = {
+    presentationTitle: ['A Calm, Light-Filled Family Home'],
+    conceptTitle: ['Core Design Concepts'],
+    mainConcepts: [
+        'Open Flow: Shared spaces connect naturally for everyday living.',
+        'Natural Materials: Oak, linen and stone bring warmth.',
+        'Soft Light: Layered lighting adapts from morning to night.',
+        'Quiet Storage: Built-ins keep every room uncluttered.',
+    ],
+    title: ['Living Room', 'Kitchen', 'Master Bedroom', 'Study', 'Bathroom', 'Dining Area', 'Guest Bedroom', 'Entrance'],
+    description: [
+        'A bright, open space with a low sofa, oak flooring and soft daylight from large windows.',
+        'Clean cabinetry and a stone worktop keep cooking and entertaining simple.',
+        'A restful retreat with linen bedding, warm timber and gentle indirect lighting.',
+    ],
+    room: ['Living Room', 'Kitchen', 'Master Bedroom', 'Bathroom'],
+    summary: ['Warm oak, off-white plaster and sage-green textiles run through every room.'],
+    furniture: [
+        'three-seat sofa in sage-green boucle with oak legs',
+        'round white-oak coffee table',
+        'paper pendant lamp with a warm glow',
+        'cream wool rug',
+    ],
+    materials: ['wide-plank white oak floor', 'off-white lime-plaster walls', 'oak joinery with brushed brass handles'],
+    conclusionTitle: ['A Home Designed for Living'],
+    conclusion: ['Every room balances comfort and function, creating a cohesive home that feels calm, bright and welcoming throughout the day.'],
+};
+
+// Canned structured values, keyed by property name, for fields a generic fixture cannot fill sensibly.
+const FIXTURE_VALUES: Record<string, unknown> = {
+    // Four rooms in the quadrants of the plan, each with a camera in one corner looking across it.
+    rooms: [
+        { name: 'Living Room', type: 'living', polygon: [{ x: 0.05, y: 0.05 }, { x: 0.55, y: 0.05 }, { x: 0.55, y: 0.5 }, { x: 0.05, y: 0.5 }], cameras: [{ x: 0.1, y: 0.45, heading: 45, fov: 75 }] },
+        { name: 'Kitchen', type: 'kitchen', polygon: [{ x: 0.55, y: 0.05 }, { x: 0.95, y: 0.05 }, { x: 0.95, y: 0.5 }, { x: 0.55, y: 0.5 }], cameras: [{ x: 0.9, y: 0.45, heading: 315, fov: 75 }] },
+        { name: 'Master Bedroom', type: 'bedroom', polygon: [{ x: 0.05, y: 0.5 }, { x: 0.55, y: 0.5 }, { x: 0.55, y: 0.95 }, { x: 0.05, y: 0.95 }], cameras: [{ x: 0.5, y: 0.55, heading: 225, fov: 75 }] },
+        { name: 'Bathroom', type: 'bathroom', polygon: [{ x: 0.55, y: 0.5 }, { x: 0.95, y: 0.5 }, { x: 0.95, y: 0.95 }, { x: 0.55, y: 0.95 }], cameras: [{ x: 0.6, y: 0.55, heading: 135, fov: 90 }] },
+    ],
+    // An object in the middle of the image, whatever was clicked.
+    outline: [{ x: 0.35, y: 0.4 }, { x: 0.65, y: 0.4 }, { x: 0.7, y: 0.55 }, { x: 0.65, y: 0.7 }, { x: 0.35, y: 0.7 }, { x: 0.3, y: 0.55 }],
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A small, stable string hash (FNV-1a) used to seed the procedural output.
+ */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * A deterministic pseudo-random generator (mulberry32) so identical requests draw identical images.
+ */
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function randomColor(random: () => number, lightness: number): string {
+    return `hsl(${Math.floor(random() * 360)}, ${25 + Math.floor(random() * 30)}%, ${lightness}%)`;
+}
+
+function getPromptText(parts: ModelPart[]): string {
+    return parts.map(part => ('text' in part ? part.text : '')).join('\n');
+}
+
+function getImageParts(parts: ModelPart[]): { mimeType: string; data: string }[] {
+    return parts.flatMap(part => ('inlineData' in part ? [part.inlineData] : []));
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = src;
+    });
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    return { canvas, ctx };
+}
+
+function drawMockLabel(ctx: CanvasRenderingContext2D, width: number) {
+    const fontSize = Math.max(14, Math.round(width / 40));
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, 0, fontSize * 5, fontSize * 1.8);
+    ctx.fillStyle = 'white';
+    ctx.fillText('MOCK', fontSize * 0.5, fontSize * 0.4);
+}
+
+/**
+ * Draws a simple one-point-perspective room: a back wall, floor, ceiling, a window and a few furniture blocks.
+ */
+function drawRoomScene(seed: number): string {
+    const random = createRandom(seed);
+    const { canvas, ctx } = createCanvas(SCENE_WIDTH, SCENE_HEIGHT);
+    const w = SCENE_WIDTH;
+    const h = SCENE_HEIGHT;
+    const back = { x: w * 0.25, y: h * 0.2, w: w * 0.5, h: h * 0.45 };
+
+    // Ceiling, side walls and floor as trapezoids converging on the back wall.
+    const surfaces: [string, number[][]][] = [
+        [randomColor(random, 92), [[0, 0], [w, 0], [back.x + back.w, back.y], [back.x, back.y]]],
+        [randomColor(random, 78), [[0, 0], [back.x, back.y], [back.x, back.y + back.h], [0, h]]],
+        [randomColor(random, 74), [[w, 0], [w, h], [back.x + back.w, back.y + back.h], [back.x + back.w, back.y]]],
+        [randomColor(random, 55), [[0, h], [back.x, back.y + back.h], [back.x + back.w, back.y + back.h], [w, h]]],
+    ];
+    surfaces.forEach(([color, points]) => {
+        ctx.beginPath();
+        ctx.moveTo(points[0][0], points[0][1]);
+        points.slice(1).forEach(([x, y]) => ctx.lineTo(x, y));
+        ctx.closePath();
+        ctx.fillStyle = color;
+        ctx.fill();
+    });
+
+    ctx.fillStyle = randomColor(random, 84);
+    ctx.fillRect(back.x, back.y, back.w, back.h);
+
+    // Window on the back wall.
+    ctx.fillStyle = 'hsl(200, 70%, 82%)';
+    ctx.fillRect(back.x + back.w * 0.3, back.y + back.h * 0.15, back.w * 0.4, back.h * 0.45);
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 6;
+    ctx.strokeRect(back.x + back.w * 0.3, back.y + back.h * 0.15, back.w * 0.4, back.h * 0.45);
+
+    // Furniture blocks resting on the floor.
+    const furnitureCount = 2 + Math.floor(random() * 3);
+    for (let i = 0; i < furnitureCount; i++) {
+        const fw = w * (0.12 + random() * 0.18);
+        const fh = h * (0.1 + random() * 0.15);
+        const fx = w * 0.08 + random() * (w * 0.84 - fw);
+        const fy = back.y + back.h + random() * (h - back.y - back.h - fh) * 0.8;
+        ctx.fillStyle = randomColor(random, 40 + Math.floor(random() * 25));
+        ctx.fillRect(fx, fy, fw, fh);
+    }
+
+    drawMockLabel(ctx, w);
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Redraws the first input image with a seeded colour wash. When a mask is supplied,
+ * only the white area of the mask is tinted, mimicking a localised edit.
+ */
+async function drawProcessedImage(seed: number, images: { mimeType: string; data: string }[], hasMask: boolean): Promise<string> {
+    const random = createRandom(seed);
+    const base = await loadImage(`data:${images[0].mimeType};base64,${images[0].data}`);
+    const { canvas, ctx } = createCanvas(base.naturalWidth, base.naturalHeight);
+    ctx.drawImage(base, 0, 0);
+
+    const tint = createCanvas(canvas.width, canvas.height);
+    tint.ctx.fillStyle = randomColor(random, 60);
+    tint.ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (hasMask && images.length > 1) {
+        const mask = await loadImage(`data:${images[images.length - 1].mimeType};base64,${images[images.length - 1].data}`);
+        const maskCanvas = createCanvas(canvas.width, canvas.height);
+        maskCanvas.ctx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+        // Turn the mask into alpha so only its painted area keeps the tint. The brightest channel
+        // is used so the coloured areas of a region map count as well as white.
+        const maskData = maskCanvas.ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const tintData = tint.ctx.getImageData(0, 0, canvas.width, canvas.height);
+        for (let i = 0; i < maskData.data.length; i += 4) {
+            tintData.data[i + 3] = Math.max(maskData.data[i], maskData.data[i + 1], maskData.data[i + 2]);
+        }
+        tint.ctx.putImageData(tintData, 0, 0);
+        ctx.globalAlpha = 0.5;
+    } else {
+        ctx.globalAlpha = 0.2;
+    }
+    ctx.drawImage(tint.canvas, 0, 0);
+    ctx.globalAlpha = 1;
+
+    drawMockLabel(ctx, canvas.width);
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Builds a value that satisfies the given schema, preferring canned values for known property names.
+ * @param schema The schema to satisfy.
+ * @param key The property name this value is stored under, if any.
+ * @param index The position of this value within its parent array.
+ */
+function buildFixture(schema: ResponseSchema, key: string, index: number): unknown {
+    if (key in FIXTURE_VALUES) {
+        return FIXTURE_VALUES[key];
+    }
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(
+                Object.entries(schema.properties || {}).map(([propertyKey, propertySchema]) => [propertyKey, buildFixture(propertySchema, propertyKey, index)])
+            );
+        case 'array': {
+            const length = schema.minItems ?? Math.min(schema.maxItems ?? 6, 6);
+            return Array.from({ length }, (_, i) => buildFixture(schema.items || { type: 'string' }, key, i));
+        }
+        case 'number':
+        case 'integer':
+            return schema.type === 'integer' ? index : (index + 1) / 10;
+        case 'boolean':
+            return index % 2 === 0;
+        case 'string':
+        default: {
+            if (schema.enum?.length) return schema.enum[index % schema.enum.length];
+            const candidates = FIXTURE_STRINGS[key] || (/style/i.test(schema.description || '') ? STYLE_NAMES : null);
+            return candidates ? candidates[index % candidates.length] : `Mock ${key || 'value'} ${index + 1}`;
+        }
+    }
+}
+
+/**
+ * Answers free-text prompts with a canned reply matched on the request's intent.
+ */
+function buildTextReply(prompt: string): string {
+    if (/interior design style/i.test(prompt)) {
+        return STYLE_NAMES[hashString(prompt) % STYLE_NAMES.length];
+    }
+    if (/suggestion for improvement/i.test(prompt)) {
+        return 'Add a kitchen island for more counter space.';
+    }
+    return 'This is a mock response generated offline.';
+}
+
+/**
+ * Creates deterministic, offline image and text providers. They never touch the network,
+ * so the full wizard can be demoed and tested without an API key.
+ * @returns The image and text provider pair.
+ */
+export function createMockProviders(): { image: ImageModelProvider; text: TextModelProvider } {
+    const image: ImageModelProvider = {
+        id: 'mock',
+        label: 'Offline mock',
+        deterministic: true,
+        async generateImage(parts: ModelPart[]): Promise<string> {
+            await delay(IMAGE_LATENCY_MS);
+            const prompt = getPromptText(parts);
+            const images = getImageParts(parts);
+            const seed = hashString(prompt + images.map(img => img.data.length).join(','));
+
+            if (/FIRST-PERSON VIEW/.test(prompt) || images.length === 0) {
+                return drawRoomScene(seed);
+            }
+            return drawProcessedImage(seed, images, /provided (black and white )?mask|a MASK image|REGION MAP/.test(prompt));
+        },
+    };
+
+    const text: TextModelProvider = {
+        id: 'mock',
+        label: 'Offline mock',
+        async generateText(parts: ModelPart[], options?: TextGenerationOptions): Promise<string> {
+            await delay(TEXT_LATENCY_MS);
+            if (options?.responseSchema) {
+                return JSON.stringify(buildFixture(options.responseSchema, '', 0));
+            }
+            return buildTextReply(getPromptText(parts));
+        },
+    };
+
+    return { image, text };
+}
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A single piece of multimodal input: either a text prompt or an inline image.
+ * This mirrors the shape used by the Gemini SDK so prompt builders can stay provider-agnostic.
+ */
+export type ModelPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+/**
+ * A minimal, provider-neutral description of the JSON a text model should return.
+ * Each provider translates this into whatever structured-output format its API understands.
+ */
+export interface ResponseSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, ResponseSchema>;
+    required?: string[];
+    items?: ResponseSchema;
+    minItems?: number;
+    maxItems?: number;
+    enum?: string[];
+}
+
+export interface TextGenerationOptions {
+    /** When set, the provider must return a JSON string matching this schema. */
+    responseSchema?: ResponseSchema;
+}
+
+/**
+ * A backend that turns a prompt (plus optional reference images) into a single image.
+ */
+export interface ImageModelProvider {
+    readonly id: string;
+    readonly label: string;
+    /**
+     * When true, identical requests always produce identical images, so callers
+     * should not append random variation suffixes to their prompts.
+     */
+    readonly deterministic?: boolean;
+    /**
+     * Generates one image from the given parts.
+     * @returns A promise resolving to a data URL of the generated image.
+     */
+    generateImage(parts: ModelPart[]): Promise<string>;
+}
+
+/**
+ * A backend that turns a prompt (plus optional images) into text or structured JSON.
+ */
+export interface TextModelProvider {
+    readonly id: string;
+    readonly label: string;
+    /**
+     * Generates a text response for the given parts.
+     * @returns A promise resolving to the raw response text (a JSON string when a schema is given).
+     */
+    generateText(parts: ModelPart[], options?: TextGenerationOptions): Promise<string>;
+}
+
+const imageProviders = new Map<string, ImageModelProvider>();
+const textProviders = new Map<string, TextModelProvider>();
+let activeImageProviderId: string | null = null;
+let activeTextProviderId: string | null = null;
+
+/**
+ * Registers an image provider. The first provider registered becomes the active one.
+ */
+export function registerImageProvider(provider: ImageModelProvider): void {
+    imageProviders.set(provider.id, provider);
+    if (!activeImageProviderId) {
+        activeImageProviderId = provider.id;
+    }
+}
+
+/**
+ * Registers a text provider. The first provider registered becomes the active one.
+ */
+export function registerTextProvider(provider: TextModelProvider): void {
+    textProviders.set(provider.id, provider);
+    if (!activeTextProviderId) {
+        activeTextProviderId = provider.id;
+    }
+}
+
+export function setActiveImageProvider(id: string): void {
+    if (!imageProviders.has(id)) {
+        throw new Error(`Unknown image model provider: "${id}"`);
+    }
+    activeImageProviderId = id;
+}
+
+export function setActiveTextProvider(id: string): void {
+    if (!textProviders.has(id)) {
+        throw new Error(`Unknown text model provider: "${id}"`);
+    }
+    activeTextProviderId = id;
+}
+
+export function getImageProvider(): ImageModelProvider {
+    const provider = activeImageProviderId ? imageProviders.get(activeImageProviderId) : undefined;
+    if (!provider) {
+        throw new Error("No image model provider has been registered.");
+    }
+    return provider;
+}
+
+export function getTextProvider(): TextModelProvider {
+    const provider = activeTextProviderId ? textProviders.get(activeTextProviderId) : undefined;
+    if (!provider) {
+        throw new Error("No text model provider has been registered.");
+    }
+    return provider;
+}
+
+export function listImageProviders(): ImageModelProvider[] {
+    return Array.from(imageProviders.values());
+}
+
+export function listTextProviders(): TextModelProvider[] {
+    return Array.from(textProviders.values());
+}
+
+export function getActiveProviderId(): string | null {
+    return activeImageProviderId;
+}
+
+/**
+ * Switches both the image and text backends to the provider registered under `id`, where available.
+ */
+export function setActiveProvider(id: string): void {
+    if (!imageProviders.has(id) && !textProviders.has(id)) {
+        throw new Error(`Unknown model provider: "${id}"`);
+    }
+    if (imageProviders.has(id)) setActiveImageProvider(id);
+    if (textProviders.has(id)) setActiveTextProvider(id);
+}